@@ -0,0 +1,380 @@
+import JSZip from "jszip";
+import {
+  CONTENT_TYPES,
+  PackagePart,
+  REL_TYPES,
+  addContentTypeOverride,
+  collectPartTree,
+  copyPartTree,
+  escapeXml,
+  getAttribute,
+  getSheetPartPaths,
+  nextPartPath,
+  nextRelationshipId,
+  readRelationships,
+  readText,
+  relativeTarget,
+  resolveTarget,
+  unescapeXml,
+  writeRelationships,
+} from "./xlsx-package.js";
+
+// DrawingML chart support. ExcelJS drops charts on read and cannot write them,
+// so chart parts are generated here and patched into the saved package, and
+// charts found in opened files are carried over as raw parts.
+
+export type ChartType = "bar" | "line" | "pie" | "scatter";
+
+export interface ChartPosition {
+  col: number;
+  row: number;
+}
+
+export interface ChartSeries {
+  name: string | null;
+  nameRef: string | null;
+  valuesRef: string;
+  values: Array<number | null>;
+}
+
+export interface ChartData {
+  categoriesRef: string | null;
+  categories: Array<string | number | null>;
+  series: ChartSeries[];
+}
+
+export interface ChartPlacement {
+  sheet: string;
+  // Anchor element with CHART_RID in place of the chart relationship id
+  anchorXml: string;
+  // Namespace declarations the anchor relies on (prefix -> uri)
+  namespaces: Record<string, string>;
+  // Chart part first, followed by everything it references
+  parts: PackagePart[];
+}
+
+export interface ImportedChart extends ChartPlacement {
+  name: string;
+  type: string;
+  title?: string;
+  position: ChartPosition;
+}
+
+export const CHART_RID = "__CHART_RID__";
+
+// Default chart size, in columns and rows
+export const DEFAULT_CHART_WIDTH = 8;
+export const DEFAULT_CHART_HEIGHT = 15;
+
+const NS = {
+  xdr: "http://schemas.openxmlformats.org/drawingml/2006/spreadsheetDrawing",
+  a: "http://schemas.openxmlformats.org/drawingml/2006/main",
+  c: "http://schemas.openxmlformats.org/drawingml/2006/chart",
+  r: "http://schemas.openxmlformats.org/officeDocument/2006/relationships",
+};
+
+// Chart XML generation
+
+export function buildChartXml(type: ChartType, title: string | undefined, data: ChartData): string {
+  const series = data.series.map((s, index) => buildSeriesXml(type, s, index, data)).join("");
+
+  let plot: string;
+  switch (type) {
+    case "bar":
+      plot =
+        `<c:barChart><c:barDir val="col"/><c:grouping val="clustered"/><c:varyColors val="0"/>${series}` +
+        `<c:gapWidth val="150"/><c:axId val="1001"/><c:axId val="1002"/></c:barChart>` +
+        categoryAxisXml(1001, 1002) +
+        valueAxisXml(1002, 1001, "l");
+      break;
+    case "line":
+      plot =
+        `<c:lineChart><c:grouping val="standard"/><c:varyColors val="0"/>${series}` +
+        `<c:marker val="1"/><c:axId val="1001"/><c:axId val="1002"/></c:lineChart>` +
+        categoryAxisXml(1001, 1002) +
+        valueAxisXml(1002, 1001, "l");
+      break;
+    case "pie":
+      plot = `<c:pieChart><c:varyColors val="1"/>${series}<c:firstSliceAng val="0"/></c:pieChart>`;
+      break;
+    case "scatter":
+      plot =
+        `<c:scatterChart><c:scatterStyle val="lineMarker"/><c:varyColors val="0"/>${series}` +
+        `<c:axId val="1001"/><c:axId val="1002"/></c:scatterChart>` +
+        valueAxisXml(1001, 1002, "b") +
+        valueAxisXml(1002, 1001, "l");
+      break;
+    default:
+      throw new Error(`Unsupported chart type: ${type}`);
+  }
+
+  const titleXml = title
+    ? `<c:title><c:tx><c:rich><a:bodyPr/><a:lstStyle/><a:p><a:r><a:t>${escapeXml(title)}</a:t></a:r></a:p></c:rich></c:tx>` +
+      `<c:overlay val="0"/></c:title><c:autoTitleDeleted val="0"/>`
+    : `<c:autoTitleDeleted val="1"/>`;
+
+  return (
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+    `<c:chartSpace xmlns:c="${NS.c}" xmlns:a="${NS.a}" xmlns:r="${NS.r}">` +
+    `<c:roundedCorners val="0"/>` +
+    `<c:chart>${titleXml}<c:plotArea><c:layout/>${plot}</c:plotArea>` +
+    `<c:legend><c:legendPos val="${type === "pie" ? "r" : "b"}"/><c:overlay val="0"/></c:legend>` +
+    `<c:plotVisOnly val="1"/><c:dispBlanksAs val="gap"/></c:chart>` +
+    `</c:chartSpace>`
+  );
+}
+
+function buildSeriesXml(type: ChartType, series: ChartSeries, index: number, data: ChartData): string {
+  const tx = series.nameRef
+    ? `<c:tx><c:strRef><c:f>${escapeXml(series.nameRef)}</c:f>${stringCacheXml([series.name])}</c:strRef></c:tx>`
+    : series.name !== null
+      ? `<c:tx><c:v>${escapeXml(series.name)}</c:v></c:tx>`
+      : "";
+  const values = `<c:numRef><c:f>${escapeXml(series.valuesRef)}</c:f>${numberCacheXml(series.values)}</c:numRef>`;
+  const categories = data.categoriesRef ? categoryReferenceXml(data.categoriesRef, data.categories) : "";
+
+  let xml = `<c:ser><c:idx val="${index}"/><c:order val="${index}"/>${tx}`;
+  switch (type) {
+    case "bar":
+      xml += `<c:invertIfNegative val="0"/>`;
+      if (categories) xml += `<c:cat>${categories}</c:cat>`;
+      xml += `<c:val>${values}</c:val>`;
+      break;
+    case "line":
+      xml += `<c:marker><c:symbol val="none"/></c:marker>`;
+      if (categories) xml += `<c:cat>${categories}</c:cat>`;
+      xml += `<c:val>${values}</c:val><c:smooth val="0"/>`;
+      break;
+    case "pie":
+      if (categories) xml += `<c:cat>${categories}</c:cat>`;
+      xml += `<c:val>${values}</c:val>`;
+      break;
+    case "scatter":
+      xml += `<c:spPr><a:ln w="19050"><a:noFill/></a:ln></c:spPr>`;
+      if (categories) xml += `<c:xVal>${categories}</c:xVal>`;
+      xml += `<c:yVal>${values}</c:yVal><c:smooth val="0"/>`;
+      break;
+  }
+  return `${xml}</c:ser>`;
+}
+
+function categoryReferenceXml(ref: string, categories: Array<string | number | null>): string {
+  const numeric = categories.every(c => c === null || typeof c === "number");
+  return numeric
+    ? `<c:numRef><c:f>${escapeXml(ref)}</c:f>${numberCacheXml(categories as Array<number | null>)}</c:numRef>`
+    : `<c:strRef><c:f>${escapeXml(ref)}</c:f>${stringCacheXml(categories.map(c => (c === null ? null : String(c))))}</c:strRef>`;
+}
+
+function stringCacheXml(values: Array<string | null>): string {
+  const points = values
+    .map((value, index) => (value === null ? "" : `<c:pt idx="${index}"><c:v>${escapeXml(value)}</c:v></c:pt>`))
+    .join("");
+  return `<c:strCache><c:ptCount val="${values.length}"/>${points}</c:strCache>`;
+}
+
+function numberCacheXml(values: Array<number | null>): string {
+  const points = values
+    .map((value, index) => (value === null ? "" : `<c:pt idx="${index}"><c:v>${value}</c:v></c:pt>`))
+    .join("");
+  return `<c:numCache><c:formatCode>General</c:formatCode><c:ptCount val="${values.length}"/>${points}</c:numCache>`;
+}
+
+function categoryAxisXml(id: number, crossId: number): string {
+  return (
+    `<c:catAx><c:axId val="${id}"/><c:scaling><c:orientation val="minMax"/></c:scaling><c:delete val="0"/>` +
+    `<c:axPos val="b"/><c:numFmt formatCode="General" sourceLinked="1"/><c:majorTickMark val="out"/>` +
+    `<c:minorTickMark val="none"/><c:tickLblPos val="nextTo"/><c:crossAx val="${crossId}"/>` +
+    `<c:crosses val="autoZero"/><c:auto val="1"/><c:lblAlgn val="ctr"/><c:lblOffset val="100"/></c:catAx>`
+  );
+}
+
+function valueAxisXml(id: number, crossId: number, position: "b" | "l"): string {
+  return (
+    `<c:valAx><c:axId val="${id}"/><c:scaling><c:orientation val="minMax"/></c:scaling><c:delete val="0"/>` +
+    `<c:axPos val="${position}"/>${position === "l" ? "<c:majorGridlines/>" : ""}` +
+    `<c:numFmt formatCode="General" sourceLinked="1"/><c:majorTickMark val="out"/>` +
+    `<c:minorTickMark val="none"/><c:tickLblPos val="nextTo"/><c:crossAx val="${crossId}"/>` +
+    `<c:crosses val="autoZero"/><c:crossBetween val="${position === "b" ? "midCat" : "between"}"/></c:valAx>`
+  );
+}
+
+export function buildChartAnchorXml(name: string, position: ChartPosition): string {
+  const marker = (col: number, row: number) =>
+    `<xdr:col>${col}</xdr:col><xdr:colOff>0</xdr:colOff><xdr:row>${row}</xdr:row><xdr:rowOff>0</xdr:rowOff>`;
+
+  return (
+    `<xdr:twoCellAnchor editAs="oneCell">` +
+    `<xdr:from>${marker(position.col - 1, position.row - 1)}</xdr:from>` +
+    `<xdr:to>${marker(position.col - 1 + DEFAULT_CHART_WIDTH, position.row - 1 + DEFAULT_CHART_HEIGHT)}</xdr:to>` +
+    `<xdr:graphicFrame macro=""><xdr:nvGraphicFramePr><xdr:cNvPr id="2" name="${escapeXml(name)}"/>` +
+    `<xdr:cNvGraphicFramePr/></xdr:nvGraphicFramePr>` +
+    `<xdr:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/></xdr:xfrm>` +
+    `<a:graphic><a:graphicData uri="${NS.c}"><c:chart xmlns:c="${NS.c}" r:id="${CHART_RID}"/></a:graphicData></a:graphic>` +
+    `</xdr:graphicFrame><xdr:clientData/></xdr:twoCellAnchor>`
+  );
+}
+
+export function createdChartPlacement(sheet: string, name: string, position: ChartPosition, chartXml: string): ChartPlacement {
+  return {
+    sheet,
+    anchorXml: buildChartAnchorXml(name, position),
+    namespaces: { xdr: NS.xdr, a: NS.a, r: NS.r },
+    parts: [{ path: "xl/charts/chart1.xml", data: Buffer.from(chartXml, "utf8"), contentType: CONTENT_TYPES.chart }],
+  };
+}
+
+// Reading charts from an existing package
+
+export async function readChartsFromPackage(zip: JSZip): Promise<ImportedChart[]> {
+  const charts: ImportedChart[] = [];
+
+  for (const [sheet, sheetPath] of await getSheetPartPaths(zip)) {
+    for (const sheetRel of await readRelationships(zip, sheetPath)) {
+      if (sheetRel.type !== REL_TYPES.drawing || sheetRel.external) continue;
+
+      const drawingPath = resolveTarget(sheetPath, sheetRel.target);
+      const drawingXml = await readText(zip, drawingPath);
+      if (!drawingXml) continue;
+
+      const drawingRels = await readRelationships(zip, drawingPath);
+      const namespaces = readNamespaces(drawingXml);
+
+      for (const anchor of drawingXml.matchAll(/<((?:\w+:)?)(twoCellAnchor|oneCellAnchor|absoluteAnchor)\b[\s\S]*?<\/\1\2>/g)) {
+        const chartRef = anchor[0].match(/<(?:\w+:)?chart\b[^>]*?\s(\w+:id)="([^"]+)"/);
+        if (!chartRef) continue;
+
+        const rel = drawingRels.find(r => r.id === chartRef[2]);
+        if (!rel || rel.type !== REL_TYPES.chart) continue;
+
+        const parts = await collectPartTree(zip, resolveTarget(drawingPath, rel.target));
+        if (parts.length === 0) continue;
+
+        const chartXml = Buffer.from(parts[0].data).toString("utf8");
+        const nameMatch = anchor[0].match(/<(?:\w+:)?cNvPr\b[^>]*>/);
+        const fromMatch = anchor[0].match(
+          /<(?:\w+:)?from>\s*<(?:\w+:)?col>(\d+)<\/(?:\w+:)?col>[\s\S]*?<(?:\w+:)?row>(\d+)<\/(?:\w+:)?row>/
+        );
+
+        charts.push({
+          sheet,
+          name: (nameMatch && getAttribute(nameMatch[0], "name")) || `Chart ${charts.length + 1}`,
+          type: chartXml.match(/<(?:\w+:)?(\w+?)Chart>/)?.[1] ?? "unknown",
+          title: readChartTitle(chartXml),
+          position: fromMatch ? { col: Number(fromMatch[1]) + 1, row: Number(fromMatch[2]) + 1 } : { col: 1, row: 1 },
+          anchorXml: anchor[0].replace(chartRef[0], chartRef[0].replace(`${chartRef[1]}="${chartRef[2]}"`, `r:id="${CHART_RID}"`)),
+          namespaces: { ...namespaces, r: NS.r },
+          parts,
+        });
+      }
+    }
+  }
+
+  return charts;
+}
+
+function readChartTitle(chartXml: string): string | undefined {
+  const title = chartXml.match(/<(?:\w+:)?title>([\s\S]*?)<\/(?:\w+:)?title>/);
+  if (!title) return undefined;
+
+  const runs = [...title[1].matchAll(/<(?:\w+:)?t>([^<]*)<\/(?:\w+:)?t>/g)].map(m => unescapeXml(m[1]));
+  if (runs.length > 0) return runs.join("");
+
+  const cached = title[1].match(/<(?:\w+:)?v>([^<]*)<\/(?:\w+:)?v>/);
+  return cached ? unescapeXml(cached[1]) : undefined;
+}
+
+function readNamespaces(xml: string): Record<string, string> {
+  const root = xml.match(/<(?:\w+:)?wsDr\b[^>]*>/);
+  const namespaces: Record<string, string> = {};
+  if (!root) return namespaces;
+
+  for (const match of root[0].matchAll(/\sxmlns:(\w+)="([^"]*)"/g)) {
+    namespaces[match[1]] = match[2];
+  }
+  return namespaces;
+}
+
+function ensureNamespaces(xml: string, rootPattern: RegExp, namespaces: Record<string, string>): string {
+  return xml.replace(rootPattern, root => {
+    let updated = root;
+    for (const [prefix, uri] of Object.entries(namespaces)) {
+      if (!new RegExp(`\\sxmlns:${prefix}=`).test(updated)) {
+        updated = updated.replace(/(\/?>)$/, ` xmlns:${prefix}="${uri}"$1`);
+      }
+    }
+    return updated;
+  });
+}
+
+// Writing charts into a saved package
+
+export async function embedCharts(zip: JSZip, placements: ChartPlacement[]): Promise<void> {
+  if (placements.length === 0) return;
+
+  const sheetParts = await getSheetPartPaths(zip);
+  const bySheet = new Map<string, ChartPlacement[]>();
+  for (const placement of placements) {
+    if (!sheetParts.has(placement.sheet)) continue;
+    if (!bySheet.has(placement.sheet)) bySheet.set(placement.sheet, []);
+    bySheet.get(placement.sheet)!.push(placement);
+  }
+
+  for (const [sheet, sheetCharts] of bySheet) {
+    const sheetPath = sheetParts.get(sheet)!;
+    const sheetRels = await readRelationships(zip, sheetPath);
+    const drawingRel = sheetRels.find(rel => rel.type === REL_TYPES.drawing && !rel.external);
+
+    let drawingPath: string;
+    let drawingXml: string;
+    if (drawingRel) {
+      drawingPath = resolveTarget(sheetPath, drawingRel.target);
+      drawingXml = (await readText(zip, drawingPath)) ?? `<xdr:wsDr xmlns:xdr="${NS.xdr}"></xdr:wsDr>`;
+    } else {
+      drawingPath = nextPartPath(zip, "xl/drawings", "drawing", "xml");
+      drawingXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<xdr:wsDr xmlns:xdr="${NS.xdr}"></xdr:wsDr>`;
+
+      const relId = nextRelationshipId(sheetRels);
+      sheetRels.push({ id: relId, type: REL_TYPES.drawing, target: relativeTarget(sheetPath, drawingPath), external: false });
+      writeRelationships(zip, sheetPath, sheetRels);
+      await addContentTypeOverride(zip, drawingPath, CONTENT_TYPES.drawing);
+
+      const sheetXml = await readText(zip, sheetPath);
+      if (sheetXml) {
+        zip.file(sheetPath, insertDrawingElement(sheetXml, relId));
+      }
+    }
+
+    const drawingRels = await readRelationships(zip, drawingPath);
+    let nextShapeId = Math.max(1, ...[...drawingXml.matchAll(/<(?:\w+:)?cNvPr\b[^>]*\sid="(\d+)"/g)].map(m => Number(m[1]))) + 1;
+
+    let anchors = "";
+    for (const placement of sheetCharts) {
+      const chartPath = await copyPartTree(zip, placement.parts);
+      const relId = nextRelationshipId(drawingRels);
+      drawingRels.push({ id: relId, type: REL_TYPES.chart, target: relativeTarget(drawingPath, chartPath), external: false });
+
+      anchors += placement.anchorXml
+        .replace(CHART_RID, relId)
+        .replace(/(<(?:\w+:)?cNvPr\b[^>]*\sid=")\d+"/, `$1${nextShapeId++}"`);
+      drawingXml = ensureNamespaces(drawingXml, /<(?:\w+:)?wsDr\b[^>]*>/, placement.namespaces);
+    }
+
+    drawingXml = drawingXml.replace(/<\/((?:\w+:)?)wsDr>\s*$/, `${anchors}</$1wsDr>`);
+    zip.file(drawingPath, drawingXml);
+    writeRelationships(zip, drawingPath, drawingRels);
+  }
+}
+
+function insertDrawingElement(sheetXml: string, relId: string): string {
+  const withNamespace = ensureNamespaces(sheetXml, /<worksheet\b[^>]*>/, { r: NS.r });
+  const element = `<drawing r:id="${relId}"/>`;
+
+  // CT_Worksheet order: drawing comes before these elements
+  const following = withNamespace.match(
+    /<(legacyDrawing|legacyDrawingHF|drawingHF|picture|oleObjects|controls|webPublishItems|tableParts|extLst)\b/
+  );
+  if (following && following.index !== undefined) {
+    return withNamespace.substring(0, following.index) + element + withNamespace.substring(following.index);
+  }
+  return withNamespace.replace(/<\/worksheet>\s*$/, `${element}</worksheet>`);
+}
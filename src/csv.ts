@@ -0,0 +1,95 @@
+// CSV and TSV support (RFC 4180). A field starting with the quote character
+// runs to the matching quote, may contain delimiters and line breaks, and
+// writes a literal quote as two quotes.
+
+export interface CsvOptions {
+  delimiter: string;
+  quote: string;
+}
+
+/**
+ * Incremental parser, so large files can be read in chunks. Call push() with
+ * each chunk of text and end() after the last one; onRow receives each row
+ * as soon as it is complete. Blank lines are skipped.
+ */
+export function createCsvParser(
+  options: CsvOptions,
+  onRow: (fields: string[]) => void
+): { push(chunk: string): void; end(): void } {
+  const { delimiter, quote } = options;
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let inQuotes = false;
+  // A quote inside a quoted field either escapes the next quote or closes the field
+  let quotePending = false;
+  // "\r\n" can be split across chunks
+  let skipLineFeed = false;
+
+  const endField = () => {
+    row.push(field);
+    field = "";
+    quoted = false;
+  };
+  const endRow = () => {
+    endField();
+    if (row.length > 1 || row[0] !== "" || quoted) onRow(row);
+    row = [];
+  };
+
+  return {
+    push(chunk: string) {
+      for (const char of chunk) {
+        if (skipLineFeed) {
+          skipLineFeed = false;
+          if (char === "\n") continue;
+        }
+
+        if (inQuotes) {
+          if (quotePending) {
+            quotePending = false;
+            if (char === quote) {
+              field += quote;
+              continue;
+            }
+            inQuotes = false;
+          } else if (char === quote) {
+            quotePending = true;
+            continue;
+          } else {
+            field += char;
+            continue;
+          }
+        }
+
+        if (char === quote && field === "" && !quoted) {
+          inQuotes = true;
+          quoted = true;
+        } else if (char === delimiter) {
+          endField();
+        } else if (char === "\n" || char === "\r") {
+          endRow();
+          skipLineFeed = char === "\r";
+        } else {
+          field += char;
+        }
+      }
+    },
+
+    end() {
+      if (field !== "" || row.length > 0 || quoted) endRow();
+    },
+  };
+}
+
+// One line of CSV, quoting the fields that need it
+export function formatCsvRow(fields: string[], options: CsvOptions): string {
+  const { delimiter, quote } = options;
+  return fields
+    .map(field =>
+      field.includes(delimiter) || field.includes(quote) || /[\r\n]/.test(field) || field.trim() !== field
+        ? `${quote}${field.split(quote).join(quote + quote)}${quote}`
+        : field
+    )
+    .join(delimiter);
+}
@@ -1,10 +1,109 @@
+import { once } from "events";
+import { createReadStream, createWriteStream, promises as fs } from "fs";
+import path from "path";
+import { finished } from "stream/promises";
 import ExcelJS from "exceljs";
-import { HyperFormula, ConfigParams, RawCellContent } from "hyperformula";
+import {
+  HyperFormula,
+  ConfigParams,
+  DetailedCellError,
+  RawCellContent,
+  SimpleCellAddress,
+  SimpleCellRange,
+} from "hyperformula";
+import {
+  ChartData,
+  ChartPlacement,
+  ChartPosition,
+  ChartType,
+  buildChartXml,
+  createdChartPlacement,
+  embedCharts,
+  readChartsFromPackage,
+} from "./charts.js";
+import { createCsvParser, formatCsvRow } from "./csv.js";
+import { formatNumber, formatText, isDateFormat } from "./number-format.js";
+import {
+  NativePivotTable,
+  PivotItem,
+  PivotLocation,
+  PivotSubtotal,
+  embedPivotTables,
+  readPivotTablesFromPackage,
+} from "./pivot-tables.js";
+import { loadPackage, readDefinedNames, readTableDefinitions, savePackage, writeDefinedNames } from "./xlsx-package.js";
 
 interface WorkbookEntry {
   workbook: ExcelJS.Workbook;
   hf: HyperFormula;
   path?: string;
+  charts: ChartEntry[];
+  names: DefinedNameEntry[];
+  pivots: PivotTableEntry[];
+  history: WorkbookHistory;
+  // Bumped on every change, including undo and redo
+  version: number;
+}
+
+interface WorkbookHistory {
+  undo: HistoryRecord[];
+  redo: HistoryRecord[];
+  checkpoints: Map<string, HistoryRecord>;
+}
+
+interface HistoryRecord {
+  description: string;
+  timestamp: string;
+  snapshot: WorkbookSnapshot;
+}
+
+// Everything needed to rebuild a workbook; HyperFormula is rebuilt from the sheets and names
+interface WorkbookSnapshot {
+  // Worksheet models in sheet order, as JSON so unchanged sheets can share the previous snapshot's string
+  sheets: Array<{ name: string; model: string }>;
+  charts: ChartEntry[];
+  names: DefinedNameEntry[];
+  pivots: PivotTableEntry[];
+}
+
+interface DefinedNameEntry {
+  name: string;
+  // Sheet the name is local to; workbook-scoped when undefined
+  scope?: string;
+  refersTo: string;
+  hidden?: boolean;
+}
+
+interface ChartEntry {
+  name: string;
+  sheet: string;
+  type: string;
+  title?: string;
+  dataRange?: string;
+  position: ChartPosition;
+  // Charts read from an opened file are carried over as raw package parts
+  placement?: ChartPlacement;
+}
+
+// A pivot table created by create_pivot_table, kept so it can be refreshed and saved natively
+interface PivotTableEntry {
+  name: string;
+  sourceSheet: string;
+  // With the name, destination sheet and destination cell filled in
+  spec: PivotTableSpec;
+  // Cells last written, including report filters; cleared before a refresh
+  range: string;
+  location: PivotLocation;
+}
+
+interface ChartInfo {
+  name: string;
+  sheet: string;
+  type: string;
+  title?: string;
+  dataRange?: string;
+  position: ChartPosition;
+  source: "created" | "file";
 }
 
 interface SheetInfo {
@@ -14,6 +113,8 @@ interface SheetInfo {
   columnCount: number;
   actualRowCount: number;
   actualColumnCount: number;
+  // Range from the first to the last used cell, or undefined when the sheet is empty
+  usedRange?: string;
 }
 
 interface CellValue {
@@ -28,14 +129,456 @@ interface ColumnInfo {
   index: number;
 }
 
+interface BorderSpec {
+  style: ExcelJS.BorderStyle;
+  color?: string;
+}
+
+export interface StyleSpec {
+  font?: {
+    name?: string;
+    size?: number;
+    bold?: boolean;
+    italic?: boolean;
+    underline?: boolean;
+    strike?: boolean;
+    color?: string;
+  };
+  fill?: {
+    color: string;
+    pattern?: ExcelJS.FillPatterns;
+  };
+  border?: {
+    top?: BorderSpec;
+    bottom?: BorderSpec;
+    left?: BorderSpec;
+    right?: BorderSpec;
+    // Every edge of every cell in the range
+    all?: BorderSpec;
+    // Only the outer edges of the range
+    outline?: BorderSpec;
+  };
+  alignment?: {
+    horizontal?: ExcelJS.Alignment["horizontal"];
+    vertical?: ExcelJS.Alignment["vertical"];
+    wrapText?: boolean;
+    indent?: number;
+    textRotation?: number;
+  };
+  numFmt?: string;
+}
+
+export interface ConditionalFormatSpec {
+  type: "cellIs" | "expression" | "colorScale" | "dataBar" | "iconSet" | "top10" | "aboveAverage" | "containsText";
+  // cellIs
+  operator?:
+    | "equal"
+    | "notEqual"
+    | "greaterThan"
+    | "greaterThanOrEqual"
+    | "lessThan"
+    | "lessThanOrEqual"
+    | "between"
+    | "notBetween";
+  values?: Array<string | number>;
+  // expression
+  formula?: string;
+  // containsText
+  text?: string;
+  // top10
+  rank?: number;
+  percent?: boolean;
+  bottom?: boolean;
+  // aboveAverage
+  aboveAverage?: boolean;
+  // colorScale (2 or 3 colors, low to high)
+  colors?: string[];
+  // dataBar
+  color?: string;
+  // iconSet
+  iconSet?: ExcelJS.IconSetTypes;
+  // Formatting applied when the rule matches (cellIs, expression, top10, aboveAverage, containsText)
+  style?: StyleSpec;
+}
+
+interface ConditionalFormatInfo {
+  sheet: string;
+  range: string;
+  priority: number;
+  type: string;
+  operator?: string;
+  formulae?: string[];
+  text?: string;
+  rank?: number;
+  percent?: boolean;
+  bottom?: boolean;
+  aboveAverage?: boolean;
+  colors?: string[];
+  color?: string;
+  iconSet?: string;
+  style?: StyleSpec;
+}
+
+export interface DataValidationSpec {
+  type: "list" | "whole" | "decimal" | "date" | "textLength" | "custom";
+  operator?: ExcelJS.DataValidationOperator;
+  // Bounds for whole/decimal/date/textLength, or the items of a literal list
+  values?: Array<string | number>;
+  // Range holding the list items (e.g., 'Lists!$A$1:$A$10')
+  source?: string;
+  // Formula for custom rules, relative to the top-left cell of the range
+  formula?: string;
+  allowBlank?: boolean;
+  errorStyle?: "stop" | "warning" | "information";
+  errorTitle?: string;
+  errorMessage?: string;
+  promptTitle?: string;
+  prompt?: string;
+}
+
+interface DataValidationInfo {
+  ranges: string[];
+  type: string;
+  operator?: string;
+  formulae: string[];
+  allowBlank: boolean;
+  errorStyle?: string;
+  errorTitle?: string;
+  errorMessage?: string;
+  promptTitle?: string;
+  prompt?: string;
+}
+
+interface DataValidationViolation {
+  cell: string;
+  value: unknown;
+  type: string;
+  reason: string;
+}
+
+export type TotalsRowFunction = "none" | "sum" | "average" | "count" | "countNums" | "max" | "min" | "stdDev" | "var";
+
+export interface TableSpec {
+  name: string;
+  headerRow?: boolean;
+  totalsRow?: boolean;
+  // Totals row function per column name; implies totalsRow
+  totals?: Record<string, TotalsRowFunction>;
+  style?: {
+    theme?: string;
+    showRowStripes?: boolean;
+    showColumnStripes?: boolean;
+    showFirstColumn?: boolean;
+    showLastColumn?: boolean;
+  };
+}
+
+// ExcelJS's table model, held on the `table` field of each worksheet table
+interface TableModel {
+  name: string;
+  displayName?: string;
+  tableRef: string;
+  autoFilterRef?: string;
+  headerRow: boolean;
+  totalsRow: boolean;
+  columns: Array<{ name: string; totalsRowLabel?: string; totalsRowFunction?: string }>;
+  style?: { theme?: string | null };
+}
+
+interface TableInfo {
+  name: string;
+  sheet: string;
+  range: string;
+  headerRow: boolean;
+  totalsRow: boolean;
+  columns: string[];
+  rowCount: number;
+  style?: string;
+}
+
+export interface SortKey {
+  // Column letter, or the header text when the range has a header row
+  column: string;
+  order?: "asc" | "desc";
+  type?: "number" | "text" | "date" | "custom";
+  // Order of values for custom sorts (e.g., ["Low", "Medium", "High"])
+  customList?: string[];
+}
+
+export type Aggregation = "sum" | "count" | "average" | "min" | "max" | "distinctCount" | "median" | "stdev";
+
+// Pivot values can also be shown as a share of the field's grand total
+export type PivotAggregation = Aggregation | "percentOfTotal";
+
+export interface PivotTableSpec {
+  // Used to refresh the pivot table (default: PivotTable1, PivotTable2, ...)
+  name?: string;
+  // Source data including its header row
+  sourceRange: string;
+  destinationSheet?: string;
+  destinationCell?: string;
+  rowFields: string[];
+  // Each combination of column field values gets its own value columns
+  columnFields?: string[];
+  dataFields: Array<{ field: string; aggregation: PivotAggregation; name?: string }>;
+  // Only source rows whose field matches one of the values are included ("(blank)" matches empty cells)
+  filters?: Array<{ field: string; values: unknown[] }>;
+  // Row items are sorted by label by default, or by a data field's total (default: the first)
+  sort?: { by: "label" | "value"; order?: "asc" | "desc"; dataField?: number };
+  // Subtotal rows for outer row fields and the Grand Total row and columns (default: true)
+  subtotals?: boolean;
+  grandTotals?: boolean;
+}
+
+interface PivotGroup {
+  label: unknown;
+  records: Array<Record<string, unknown>>;
+  children: PivotGroup[];
+}
+
+interface PivotLayout {
+  rows: unknown[][];
+  headerRows: number;
+  // Indexes into rows of subtotal and grand total rows
+  totalRows: number[];
+  columnFormats: Array<string | undefined>;
+}
+
+export interface QueryComparison {
+  field: string;
+  op: "=" | "!=" | ">" | ">=" | "<" | "<=" | "in" | "notIn" | "contains" | "startsWith" | "endsWith" | "isNull" | "isNotNull";
+  // A list for in/notIn; unused for isNull/isNotNull
+  value?: unknown;
+}
+
+export type QueryCondition = QueryComparison | { and: QueryCondition[] } | { or: QueryCondition[] } | { not: QueryCondition };
+
+interface QuerySelectItem {
+  field?: string;
+  aggregation?: Aggregation;
+  as?: string;
+}
+
+export interface QuerySpec {
+  // Defaults to the sheet's used area; the first row holds column names
+  range?: string;
+  select?: Array<string | QuerySelectItem>;
+  where?: QueryCondition;
+  groupBy?: string[];
+  orderBy?: Array<{ field: string; order?: "asc" | "desc" }>;
+  limit?: number;
+  offset?: number;
+}
+
+export interface FindOptions {
+  // Search one sheet instead of the whole workbook
+  sheet?: string | number;
+  matchCase?: boolean;
+  wholeCell?: boolean;
+  regex?: boolean;
+  // "values" matches constants and calculated results, "formulas" matches formula text
+  lookIn?: "values" | "formulas" | "both";
+  limit?: number;
+}
+
+// A constant cell has a value; a formula cell has its formula and result
+interface CellSnapshot {
+  value?: unknown;
+  formula?: string;
+  calculatedValue?: unknown;
+}
+
+interface CellChange {
+  sheet: string;
+  cell: string;
+  // "result" is a formula whose text is unchanged but whose calculated value differs
+  kind: "value" | "formula" | "result";
+  before: CellSnapshot | null;
+  after: CellSnapshot | null;
+}
+
+interface StyleChange {
+  sheet: string;
+  cell: string;
+  properties: string[];
+  before: StyleSpec;
+  after: StyleSpec;
+}
+
+interface WorkbookDiff {
+  base: string;
+  sheets: { added: string[]; removed: string[]; renamed: Array<{ from: string; to: string }> };
+  summary: { valueChanges: number; formulaChanges: number; resultChanges: number; styleChanges: number };
+  cells: CellChange[];
+  styles?: StyleChange[];
+  truncated?: boolean;
+  markdown?: string;
+}
+
+// A cell, range or defined name in a precedents or dependents tree
+interface TraceNode {
+  sheet?: string;
+  cell?: string;
+  range?: string;
+  name?: string;
+  formula?: string;
+  value?: unknown;
+  children?: TraceNode[];
+  // Already expanded elsewhere in the tree
+  repeated?: boolean;
+  // Not fully expanded because of the depth or size limit
+  truncated?: boolean;
+}
+
+interface SheetStructure {
+  sheet: string;
+  // Constants that formulas depend on
+  inputs: Array<{ cell: string; value: unknown; usedBy: number }>;
+  // Formulas that nothing else uses
+  outputs: Array<{ cell: string; formula: string; value: unknown }>;
+  // Formulas that feed other formulas
+  calculations: number;
+}
+
+interface FormulaIssue {
+  sheet: string;
+  cell: string;
+  formula: string;
+}
+
+interface FormulaAudit {
+  formulasChecked: number;
+  summary: { errors: number; unsupportedFunctions: number; inconsistentFormulas: number; hardcodedNumbers: number };
+  errors: Array<FormulaIssue & { error: string; type: string; message: string }>;
+  // The calculated value is HyperFormula's, which can differ from what Excel shows
+  unsupportedFunctions: Array<FormulaIssue & { functions: string[]; value: unknown }>;
+  // Formulas that differ from the matching neighbors on both sides
+  inconsistentFormulas: Array<FormulaIssue & { direction: "row" | "column"; expected: string }>;
+  hardcodedNumbers: Array<FormulaIssue & { numbers: string[] }>;
+  truncated?: boolean;
+}
+
+interface RecalculationResult {
+  sheetsRecalculated: number;
+  formulasCalculated: number;
+  changed: Array<{ sheet: string; cell: string; before: unknown; after: unknown }>;
+  // Cells the engine held differently from the ExcelJS model, which wins
+  mismatches: Array<{ sheet: string; cell: string; workbook: RawCellContent; engine: RawCellContent }>;
+  cachedDifferences?: Array<{ sheet: string; cell: string; formula: string; cached: unknown; calculated: unknown }>;
+  truncated?: boolean;
+}
+
+export interface CsvImportOptions {
+  // Read from a file, streamed, or from inline text
+  path?: string;
+  content?: string;
+  // Defaults to a tab for .tsv and .tab files, otherwise a comma
+  delimiter?: string;
+  quote?: string;
+  encoding?: BufferEncoding;
+  // First row holds column names, kept as text (default: true)
+  header?: boolean;
+  // Turn numbers and booleans into typed values (default: true)
+  inferTypes?: boolean;
+  // Turn fields starting with = into live formulas (default: false, as untrusted CSV can carry formula injection)
+  formulas?: boolean;
+  // Creates a new workbook when omitted
+  workbookId?: string;
+  sheet?: string;
+  startCell?: string;
+}
+
+export interface CsvExportOptions {
+  // Defaults to the sheet's used area
+  range?: string;
+  // Write to a file, streamed, instead of returning the text
+  path?: string;
+  delimiter?: string;
+  quote?: string;
+  encoding?: BufferEncoding;
+  // Write formulas as =text instead of their calculated values
+  formulas?: boolean;
+}
+
+export interface JsonImportOptions {
+  records: Array<Record<string, unknown>>;
+  // Dotted keys to import, in order (default: every key, in first-seen order)
+  columns?: string[];
+  // Header text for keys, e.g. { "customer.name": "Customer" }
+  headers?: Record<string, string>;
+  // Arrays are joined into text, exploded into one row per element, or kept as JSON (default: join)
+  arrays?: "join" | "explode" | "json";
+  arraySeparator?: string;
+  // Add rows below existing data, matching columns by header; new keys become new columns
+  append?: boolean;
+  // Turn string values starting with = into live formulas (default: false, as API data can carry formula injection)
+  formulas?: boolean;
+  // Creates a new workbook when omitted
+  workbookId?: string;
+  sheet?: string;
+  startCell?: string;
+}
+
+// ISO 8601 dates, optionally with a time and zone
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+// Shorthand names accepted in place of a number format code
+const NUMBER_FORMATS: Record<string, string> = {
+  general: "General",
+  integer: "#,##0",
+  decimal: "#,##0.00",
+  currency: '"$"#,##0.00',
+  percent: "0.00%",
+  date: "yyyy-mm-dd",
+  datetime: "yyyy-mm-dd hh:mm:ss",
+  time: "hh:mm:ss",
+  text: "@",
+};
+
+// Undo steps kept per workbook; the oldest are dropped first
+const MAX_HISTORY = 50;
+
+// Rows parsed before they're written to the sheet during a CSV import
+const CSV_BATCH_ROWS = 1000;
+
+// Cells listed under one range in a precedents tree
+const MAX_TRACE_CHILDREN = 100;
+
+// Summary functions of Excel pivot tables; median and distinct count have none
+const NATIVE_PIVOT_SUBTOTALS: Partial<Record<PivotAggregation, PivotSubtotal>> = {
+  sum: "sum",
+  count: "count",
+  average: "average",
+  min: "min",
+  max: "max",
+  stdev: "stdDev",
+  percentOfTotal: "sum",
+};
+
+// Captions for pivot data fields, as in "Sum of Sales"
+const PIVOT_AGGREGATION_LABELS: Record<Aggregation, string> = {
+  sum: "Sum",
+  count: "Count",
+  average: "Average",
+  min: "Min",
+  max: "Max",
+  distinctCount: "Distinct Count",
+  median: "Median",
+  stdev: "StdDev",
+};
+
 // HyperFormula configuration
 const hfConfig: Partial<ConfigParams> = {
   licenseKey: "gpl-v3",
+  // Excel's sheet size; HyperFormula defaults to 40,000 rows
+  maxRows: 1048576,
+  maxColumns: 16384,
 };
 
 export class ExcelClient {
   private workbooks: Map<string, WorkbookEntry> = new Map();
   private nextId: number = 1;
+  private historyPaused = false;
 
   // Workbook Management
 
@@ -48,29 +591,56 @@ export class ExcelClient {
     hf.addSheet("Sheet1");
 
     const id = `wb_${this.nextId++}`;
-    this.workbooks.set(id, { workbook, hf });
+    this.workbooks.set(id, { workbook, hf, charts: [], names: [], pivots: [], history: this.emptyHistory(), version: 0 });
     return id;
   }
 
   async openWorkbook(filePath: string): Promise<string> {
+    const entry = await this.loadWorkbook(filePath);
+    const id = `wb_${this.nextId++}`;
+    this.workbooks.set(id, entry);
+    return id;
+  }
+
+  private async loadWorkbook(filePath: string): Promise<WorkbookEntry> {
     const workbook = new ExcelJS.Workbook();
     await workbook.xlsx.readFile(filePath);
 
-    // Build HyperFormula from workbook data
-    const hf = HyperFormula.buildEmpty(hfConfig);
+    const pkg = await loadPackage(await fs.readFile(filePath));
 
-    // Sync each sheet to HyperFormula
-    for (const sheet of workbook.worksheets) {
-      const sheetId = hf.addSheet(sheet.name);
-      if (sheetId === undefined) continue;
+    // ExcelJS only keeps workbook-scoped range names, so read them from the package
+    const names: DefinedNameEntry[] = [];
+    for (const definedName of await readDefinedNames(pkg)) {
+      if (definedName.name.startsWith("_xlnm.")) continue;
 
-      // Get sheet data and sync to HyperFormula
-      this.syncSheetToHyperFormula(sheet, hf, sheet.name);
+      const scope =
+        definedName.localSheetId !== undefined ? workbook.worksheets[definedName.localSheetId]?.name : undefined;
+      names.push({ name: definedName.name, scope, refersTo: definedName.refersTo, hidden: definedName.hidden });
     }
 
-    const id = `wb_${this.nextId++}`;
-    this.workbooks.set(id, { workbook, hf, path: filePath });
-    return id;
+    // ExcelJS reads a table without headerRowCount as headerless; Excel leaves it out for the default of 1
+    const tableDefinitions = await readTableDefinitions(pkg);
+    for (const { model } of this.getTables(workbook)) {
+      const definition = tableDefinitions.find(table => table.name === model.name);
+      if (definition) model.headerRow = definition.headerRowCount > 0;
+    }
+
+    const hf = this.buildHyperFormula(workbook, names);
+
+    // ExcelJS drops charts, so keep the original chart parts to write back on save
+    const charts: ChartEntry[] = (await readChartsFromPackage(pkg)).map(chart => ({
+      name: chart.name,
+      sheet: chart.sheet,
+      type: chart.type,
+      title: chart.title,
+      position: chart.position,
+      placement: chart,
+    }));
+
+    // ExcelJS drops pivot tables too; read back the ones create_pivot_table can refresh
+    const pivots = (await readPivotTablesFromPackage(pkg)).flatMap(pivot => this.readPivotTableEntry(workbook, pivot) ?? []);
+
+    return { workbook, hf, path: filePath, charts, names, pivots, history: this.emptyHistory(), version: 0 };
   }
 
   async saveWorkbook(workbookId: string, filePath?: string): Promise<string> {
@@ -84,7 +654,20 @@ export class ExcelClient {
     // Before saving, sync calculated values back to ExcelJS
     this.syncCalculatedValuesToWorkbook(entry);
 
-    await entry.workbook.xlsx.writeFile(savePath);
+    // Charts, pivot tables and defined names are patched into the package ExcelJS produces
+    const zip = await loadPackage(await entry.workbook.xlsx.writeBuffer());
+    await embedCharts(zip, entry.charts.map(chart => this.getChartPlacement(entry, chart)));
+    await embedPivotTables(zip, entry.pivots.flatMap(pivot => this.getNativePivotTable(entry, pivot) ?? []));
+    await writeDefinedNames(
+      zip,
+      entry.names.map(name => ({
+        name: name.name,
+        refersTo: name.refersTo,
+        localSheetId: name.scope !== undefined ? entry.workbook.worksheets.findIndex(s => s.name === name.scope) : undefined,
+        hidden: name.hidden,
+      }))
+    );
+    await fs.writeFile(savePath, await savePackage(zip));
     entry.path = savePath;
     return savePath;
   }
@@ -98,6 +681,14 @@ export class ExcelClient {
     this.workbooks.delete(workbookId);
   }
 
+  /**
+   * A number that changes whenever the workbook does, or undefined once it is
+   * closed. Lets callers skip work when a workbook is unchanged.
+   */
+  getWorkbookVersion(workbookId: string): number | undefined {
+    return this.workbooks.get(workbookId)?.version;
+  }
+
   listWorkbooks(): Array<{ id: string; path?: string; sheetCount: number }> {
     const result: Array<{ id: string; path?: string; sheetCount: number }> = [];
     for (const [id, entry] of this.workbooks) {
@@ -110,6 +701,159 @@ export class ExcelClient {
     return result;
   }
 
+  // History
+
+  /**
+   * Roll back the most recent change. The ExcelJS sheets, charts and names are
+   * restored from a snapshot and HyperFormula is rebuilt from them.
+   */
+  undo(workbookId: string): { undone: string; undoSteps: number; redoSteps: number } {
+    const entry = this.getWorkbookEntry(workbookId);
+    const record = entry.history.undo.pop();
+    if (!record) {
+      throw new Error("Nothing to undo");
+    }
+
+    entry.history.redo.push({ ...record, snapshot: this.takeSnapshot(entry) });
+    this.restoreSnapshot(entry, record.snapshot);
+    return { undone: record.description, undoSteps: entry.history.undo.length, redoSteps: entry.history.redo.length };
+  }
+
+  redo(workbookId: string): { redone: string; undoSteps: number; redoSteps: number } {
+    const entry = this.getWorkbookEntry(workbookId);
+    const record = entry.history.redo.pop();
+    if (!record) {
+      throw new Error("Nothing to redo");
+    }
+
+    entry.history.undo.push({ ...record, snapshot: this.takeSnapshot(entry) });
+    this.restoreSnapshot(entry, record.snapshot);
+    return { redone: record.description, undoSteps: entry.history.undo.length, redoSteps: entry.history.redo.length };
+  }
+
+  createCheckpoint(workbookId: string, name: string): { name: string; timestamp: string } {
+    const entry = this.getWorkbookEntry(workbookId);
+    const record = { description: name, timestamp: new Date().toISOString(), snapshot: this.takeSnapshot(entry) };
+    entry.history.checkpoints.set(name, record);
+    return { name, timestamp: record.timestamp };
+  }
+
+  // Restoring is itself recorded, so it can be undone
+  restoreCheckpoint(workbookId: string, name: string): void {
+    const entry = this.getWorkbookEntry(workbookId);
+    const checkpoint = entry.history.checkpoints.get(name);
+    if (!checkpoint) {
+      throw new Error(`Checkpoint "${name}" not found`);
+    }
+
+    this.recordChange(entry, `Restore checkpoint "${name}"`);
+    this.restoreSnapshot(entry, checkpoint.snapshot);
+  }
+
+  listHistory(workbookId: string): {
+    undo: Array<{ description: string; timestamp: string }>;
+    redo: Array<{ description: string; timestamp: string }>;
+    checkpoints: Array<{ name: string; timestamp: string }>;
+  } {
+    const entry = this.getWorkbookEntry(workbookId);
+    const describe = (record: HistoryRecord) => ({ description: record.description, timestamp: record.timestamp });
+
+    // Most recent first, the order undo and redo will apply them
+    return {
+      undo: entry.history.undo.map(describe).reverse(),
+      redo: entry.history.redo.map(describe).reverse(),
+      checkpoints: [...entry.history.checkpoints].map(([name, record]) => ({ name, timestamp: record.timestamp })),
+    };
+  }
+
+  private emptyHistory(): WorkbookHistory {
+    return { undo: [], redo: [], checkpoints: new Map() };
+  }
+
+  // Snapshot the workbook before a change; changes made inside another recorded change aren't recorded again
+  private recordChange(entry: WorkbookEntry, description: string): void {
+    entry.version++;
+    if (this.historyPaused) return;
+
+    entry.history.undo.push({ description, timestamp: new Date().toISOString(), snapshot: this.takeSnapshot(entry) });
+    if (entry.history.undo.length > MAX_HISTORY) entry.history.undo.shift();
+    entry.history.redo = [];
+  }
+
+  // After a recorded change failed partway, restore the snapshot it took and the history before it
+  private rollbackChange(entry: WorkbookEntry, history: Pick<WorkbookHistory, "undo" | "redo">): void {
+    const record = entry.history.undo[entry.history.undo.length - 1];
+    if (record && record !== history.undo[history.undo.length - 1]) {
+      this.restoreSnapshot(entry, record.snapshot);
+    }
+    entry.history.undo = history.undo;
+    entry.history.redo = history.redo;
+  }
+
+  private withoutHistory<T>(change: () => T): T {
+    const paused = this.historyPaused;
+    this.historyPaused = true;
+    try {
+      return change();
+    } finally {
+      this.historyPaused = paused;
+    }
+  }
+
+  private takeSnapshot(entry: WorkbookEntry): WorkbookSnapshot {
+    const previous = entry.history.undo[entry.history.undo.length - 1]?.snapshot;
+    const sheets = entry.workbook.worksheets.map(sheet => {
+      // Tag dates, which JSON would otherwise turn into strings
+      const model = JSON.stringify(sheet.model, function (this: Record<string, unknown>, key, value) {
+        const raw = this[key];
+        return raw instanceof Date ? { $date: raw.getTime() } : value;
+      });
+      const unchanged = previous?.sheets.find(s => s.name === sheet.name && s.model === model);
+      return { name: sheet.name, model: unchanged ? unchanged.model : model };
+    });
+
+    return {
+      sheets,
+      charts: this.cloneCharts(entry.charts),
+      names: entry.names.map(name => ({ ...name })),
+      pivots: structuredClone(entry.pivots),
+    };
+  }
+
+  private restoreSnapshot(entry: WorkbookEntry, snapshot: WorkbookSnapshot): void {
+    entry.version++;
+    const { workbook } = entry;
+    for (const sheet of [...workbook.worksheets]) {
+      workbook.removeWorksheet(sheet.id);
+    }
+
+    for (const { name, model } of snapshot.sheets) {
+      const parsed = JSON.parse(model, (_key, value) =>
+        value && typeof value === "object" && typeof value.$date === "number" ? new Date(value.$date) : value
+      );
+      const sheet = workbook.addWorksheet(name);
+      // The model setter reads merges back from mergeCells and leaves out the visibility state
+      sheet.model = { ...parsed, id: sheet.id, name, mergeCells: parsed.merges };
+      sheet.state = parsed.state;
+    }
+
+    entry.charts = this.cloneCharts(snapshot.charts);
+    entry.names = snapshot.names.map(name => ({ ...name }));
+    entry.pivots = structuredClone(snapshot.pivots);
+
+    entry.hf.destroy();
+    entry.hf = this.buildHyperFormula(workbook, entry.names);
+  }
+
+  // Chart parts read from a file are never modified, so only the fields that change are copied
+  private cloneCharts(charts: ChartEntry[]): ChartEntry[] {
+    return charts.map(chart => ({
+      ...chart,
+      position: { ...chart.position },
+      placement: chart.placement && { ...chart.placement },
+    }));
+  }
+
   // Sheet Operations
 
   listSheets(workbookId: string): Array<{ name: string; index: number }> {
@@ -123,10 +867,12 @@ export class ExcelClient {
   createSheet(workbookId: string, name?: string): { name: string; index: number } {
     const entry = this.getWorkbookEntry(workbookId);
     const sheetName = name || `Sheet${entry.workbook.worksheets.length + 1}`;
+    this.checkSheetName(entry.workbook, sheetName);
+    this.recordChange(entry, `Create sheet "${sheetName}"`);
     const sheet = entry.workbook.addWorksheet(sheetName);
 
     // Add sheet to HyperFormula
-    entry.hf.addSheet(sheetName);
+    entry.hf.addSheet(sheet.name);
 
     return {
       name: sheet.name,
@@ -138,28 +884,189 @@ export class ExcelClient {
     const entry = this.getWorkbookEntry(workbookId);
     const sheet = this.getSheet(entry.workbook, sheetIdentifier);
     const sheetName = sheet.name;
+    this.recordChange(entry, `Delete sheet "${sheetName}"`);
 
     entry.workbook.removeWorksheet(sheet.id);
+    entry.charts = entry.charts.filter(chart => chart.sheet !== sheetName);
+    entry.names = entry.names.filter(name => name.scope !== sheetName);
+    entry.pivots = entry.pivots.filter(pivot => pivot.sourceSheet !== sheetName && pivot.spec.destinationSheet !== sheetName);
 
     // Remove from HyperFormula
     const hfSheetId = entry.hf.getSheetId(sheetName);
     if (hfSheetId !== undefined) {
       entry.hf.removeSheet(hfSheetId);
     }
+    this.syncFormulasFromHyperFormula(entry);
+    this.syncNamesFromHyperFormula(entry);
+
+    // HyperFormula keeps the text of references to a removed sheet; Excel turns them into #REF!
+    for (const other of entry.workbook.worksheets) {
+      const otherId = entry.hf.getSheetId(other.name);
+      other.eachRow(row => {
+        row.eachCell(cell => {
+          const value = cell.value as ExcelJS.CellFormulaValue;
+          if (cell.type !== ExcelJS.ValueType.Formula || !value.formula) return;
+
+          const formula = this.dropSheetReferences(value.formula, sheetName);
+          if (formula === value.formula) return;
+          cell.value = { formula };
+          if (otherId !== undefined) {
+            const { row: rowNumber, col } = cell.fullAddress;
+            const resolved = this.resolveStructuredReferences(entry.workbook, formula, other.name, rowNumber, col);
+            entry.hf.setCellContents({ sheet: otherId, row: rowNumber - 1, col: col - 1 }, `=${resolved}`);
+          }
+        });
+      });
+    }
+    for (const definedName of entry.names) {
+      const refersTo = this.dropSheetReferences(definedName.refersTo, sheetName);
+      if (refersTo === definedName.refersTo) continue;
+
+      definedName.refersTo = refersTo;
+      const scopeId = this.getNameScopeId(entry, definedName.scope);
+      if (entry.hf.getNamedExpression(definedName.name, scopeId)) {
+        entry.hf.changeNamedExpression(definedName.name, `=${refersTo}`, scopeId);
+      }
+    }
   }
 
   renameSheet(workbookId: string, sheetIdentifier: string | number, newName: string): void {
     const entry = this.getWorkbookEntry(workbookId);
     const sheet = this.getSheet(entry.workbook, sheetIdentifier);
     const oldName = sheet.name;
+    this.checkSheetName(entry.workbook, newName, sheet);
+    this.recordChange(entry, `Rename sheet "${oldName}" to "${newName}"`);
 
     sheet.name = newName;
+    for (const chart of entry.charts) {
+      if (chart.sheet === oldName) {
+        chart.sheet = newName;
+        if (chart.placement) chart.placement.sheet = newName;
+      }
+    }
+
+    for (const name of entry.names) {
+      if (name.scope === oldName) name.scope = newName;
+    }
+    for (const pivot of entry.pivots) {
+      if (pivot.sourceSheet === oldName) pivot.sourceSheet = newName;
+      if (pivot.spec.destinationSheet === oldName) pivot.spec.destinationSheet = newName;
+    }
 
     // Rename in HyperFormula
     const hfSheetId = entry.hf.getSheetId(oldName);
     if (hfSheetId !== undefined) {
       entry.hf.renameSheet(hfSheetId, newName);
     }
+    this.syncFormulasFromHyperFormula(entry);
+    this.syncNamesFromHyperFormula(entry);
+  }
+
+  // The checks ExcelJS makes when naming a sheet, made before the change is recorded
+  private checkSheetName(workbook: ExcelJS.Workbook, name: string, renamed?: ExcelJS.Worksheet): void {
+    if (name === "" || name === "History") {
+      throw new Error(name ? `The sheet name "${name}" is reserved` : "The sheet name can't be empty");
+    }
+    if (/[*?:/\\[\]]/.test(name)) {
+      throw new Error(`Sheet name "${name}" cannot include any of the following characters: * ? : \\ / [ ]`);
+    }
+    if (/^'|'$/.test(name)) {
+      throw new Error(`Sheet name "${name}" cannot start or end with an apostrophe`);
+    }
+    // Longer names are cut to 31 characters
+    const stored = name.substring(0, 31).toLowerCase();
+    if (workbook.worksheets.some(sheet => sheet !== renamed && sheet.name.toLowerCase() === stored)) {
+      throw new Error(`Sheet "${name}" already exists`);
+    }
+  }
+
+  /**
+   * Copy a sheet with its values, formulas, formatting, merges, validation and
+   * tables. Tables get new names, and sheet-scoped names are copied to the new sheet.
+   */
+  copySheet(
+    workbookId: string,
+    sheetIdentifier: string | number,
+    newName?: string,
+    position?: number
+  ): { name: string; index: number } {
+    const entry = this.getWorkbookEntry(workbookId);
+    const source = this.getSheet(entry.workbook, sheetIdentifier);
+
+    let name = newName || `${source.name} (2)`;
+    for (let n = 3; !newName && entry.workbook.getWorksheet(name); n++) {
+      name = `${source.name} (${n})`;
+    }
+    this.checkSheetName(entry.workbook, name);
+    this.recordChange(entry, `Copy sheet "${source.name}" to "${name}"`);
+
+    const model = structuredClone(source.model) as ExcelJS.WorksheetModel & { tables: TableModel[]; mergeCells?: string[] };
+    const renamedTables = new Map<string, string>();
+    for (const table of model.tables) {
+      let tableName = table.name;
+      const taken = (candidate: string) =>
+        this.findTable(entry.workbook, candidate) ||
+        entry.names.some(n => n.name.toLowerCase() === candidate.toLowerCase()) ||
+        [...renamedTables.values()].some(t => t.toLowerCase() === candidate.toLowerCase());
+      for (let n = 2; taken(tableName); n++) {
+        tableName = `${table.name}${n}`;
+      }
+      renamedTables.set(table.name, tableName);
+      table.name = tableName;
+      table.displayName = tableName;
+    }
+
+    const copy = entry.workbook.addWorksheet(name);
+    // The model setter reads merges back from mergeCells
+    copy.model = { ...model, id: copy.id, name, mergeCells: model.merges } as ExcelJS.WorksheetModel;
+
+    // Formulas in the copy point at the copy's own tables, as in Excel
+    for (const [oldName, tableName] of renamedTables) {
+      copy.eachRow(row => {
+        row.eachCell(cell => {
+          const value = cell.value as ExcelJS.CellFormulaValue;
+          if (cell.type === ExcelJS.ValueType.Formula && value.formula) {
+            cell.value = { formula: this.renameTableReferences(value.formula, oldName, tableName) };
+          }
+        });
+      });
+    }
+
+    entry.hf.addSheet(name);
+    const copyId = entry.hf.getSheetId(name)!;
+    for (const definedName of entry.names.filter(n => n.scope === source.name)) {
+      const refersTo = definedName.refersTo.split(this.quoteSheetName(source.name)).join(this.quoteSheetName(name));
+      entry.names.push({ name: definedName.name, scope: name, refersTo, hidden: definedName.hidden });
+      try {
+        entry.hf.addNamedExpression(definedName.name, `=${refersTo}`, copyId);
+      } catch {
+        // Kept for the saved file even when HyperFormula can't evaluate it
+      }
+    }
+    this.syncSheetToHyperFormula(copy, entry.hf, name);
+
+    const sourceIndex = entry.workbook.worksheets.indexOf(source) + 1;
+    return this.withoutHistory(() => this.moveSheet(workbookId, name, position ?? sourceIndex + 1));
+  }
+
+  moveSheet(workbookId: string, sheetIdentifier: string | number, position: number): { name: string; index: number } {
+    const entry = this.getWorkbookEntry(workbookId);
+    const sheet = this.getSheet(entry.workbook, sheetIdentifier);
+    const sheets = entry.workbook.worksheets;
+
+    if (!Number.isInteger(position) || position < 1 || position > sheets.length) {
+      throw new Error(`Position must be between 1 and ${sheets.length}`);
+    }
+    this.recordChange(entry, `Move sheet "${sheet.name}" to position ${position}`);
+
+    // ExcelJS orders worksheets by orderNo; HyperFormula's sheet order doesn't matter
+    sheets.splice(sheets.indexOf(sheet), 1);
+    sheets.splice(position - 1, 0, sheet);
+    sheets.forEach((s, index) => {
+      (s as unknown as { orderNo: number }).orderNo = index + 1;
+    });
+
+    return { name: sheet.name, index: position };
   }
 
   getSheetInfo(workbookId: string, sheetIdentifier: string | number): SheetInfo {
@@ -173,6 +1080,13 @@ export class ExcelClient {
       columnCount: sheet.columnCount,
       actualRowCount: sheet.actualRowCount,
       actualColumnCount: sheet.actualColumnCount,
+      usedRange:
+        sheet.actualRowCount > 0
+          ? this.formatRangeReference(
+              { row: sheet.dimensions.top, col: sheet.dimensions.left },
+              { row: sheet.dimensions.bottom, col: sheet.dimensions.right }
+            )
+          : undefined,
     };
   }
 
@@ -194,8 +1108,8 @@ export class ExcelClient {
     }
 
     return {
-      value: cell.value,
-      calculatedValue,
+      value: this.toReadValue(entry.workbook, cell, cell.value),
+      calculatedValue: this.toReadValue(entry.workbook, cell, calculatedValue),
       formula: cell.formula ? `=${cell.formula}` : undefined,
     };
   }
@@ -208,8 +1122,10 @@ export class ExcelClient {
   ): void {
     const entry = this.getWorkbookEntry(workbookId);
     const sheet = this.getSheet(entry.workbook, sheetIdentifier);
-    const cell = sheet.getCell(cellAddress);
     const ref = this.parseCellReference(cellAddress);
+    this.recordChange(entry, `Write ${sheet.name}!${cellAddress}`);
+    const date = value instanceof Date ? value : typeof value === "string" ? this.parseIsoDate(value) : undefined;
+    const cell = sheet.getCell(ref.row, ref.col);
 
     // If value starts with '=', treat as formula
     if (typeof value === "string" && value.startsWith("=")) {
@@ -218,7 +1134,15 @@ export class ExcelClient {
       // Update HyperFormula with formula
       const hfSheetId = entry.hf.getSheetId(sheet.name);
       if (hfSheetId !== undefined) {
-        entry.hf.setCellContents({ sheet: hfSheetId, row: ref.row - 1, col: ref.col - 1 }, value);
+        const formula = this.resolveStructuredReferences(entry.workbook, value.substring(1), sheet.name, ref.row, ref.col);
+        entry.hf.setCellContents({ sheet: hfSheetId, row: ref.row - 1, col: ref.col - 1 }, `=${formula}`);
+      }
+    } else if (date) {
+      this.writeDate(cell, date);
+
+      const hfSheetId = entry.hf.getSheetId(sheet.name);
+      if (hfSheetId !== undefined) {
+        entry.hf.setCellContents({ sheet: hfSheetId, row: ref.row - 1, col: ref.col - 1 }, this.dateToSerial(date, entry.workbook.properties.date1904));
       }
     } else {
       cell.value = value;
@@ -226,7 +1150,7 @@ export class ExcelClient {
       // Update HyperFormula with value
       const hfSheetId = entry.hf.getSheetId(sheet.name);
       if (hfSheetId !== undefined) {
-        entry.hf.setCellContents({ sheet: hfSheetId, row: ref.row - 1, col: ref.col - 1 }, value);
+        entry.hf.setCellContents({ sheet: hfSheetId, row: ref.row - 1, col: ref.col - 1 }, this.toHyperFormulaContent(sheet, cell, ref.row, ref.col));
       }
     }
   }
@@ -250,12 +1174,12 @@ export class ExcelClient {
       const rowData: Array<unknown> = [];
       for (let col = startRef.col; col <= endRef.col; col++) {
         // Get calculated value from HyperFormula
+        const cell = sheet.findCell(row, col);
         if (hfSheetId !== undefined) {
           const hfValue = entry.hf.getCellValue({ sheet: hfSheetId, row: row - 1, col: col - 1 });
-          rowData.push(hfValue);
+          rowData.push(this.toReadValue(entry.workbook, cell, hfValue));
         } else {
-          const cell = sheet.getCell(row, col);
-          rowData.push(cell.value);
+          rowData.push(this.toReadValue(entry.workbook, cell, cell?.value ?? null));
         }
       }
       result.push(rowData);
@@ -272,8 +1196,8 @@ export class ExcelClient {
   ): void {
     const entry = this.getWorkbookEntry(workbookId);
     const sheet = this.getSheet(entry.workbook, sheetIdentifier);
-
     const startRef = this.parseCellReference(startCell);
+    this.recordChange(entry, `Write range at ${sheet.name}!${startCell}`);
     const hfSheetId = entry.hf.getSheetId(sheet.name);
 
     // Prepare data for HyperFormula batch update
@@ -286,19 +1210,20 @@ export class ExcelClient {
       for (let colOffset = 0; colOffset < rowData.length; colOffset++) {
         const cell = sheet.getCell(startRef.row + rowOffset, startRef.col + colOffset);
         const value = rowData[colOffset];
+        const date = value instanceof Date ? value : typeof value === "string" ? this.parseIsoDate(value) : undefined;
 
         if (value === null) {
           cell.value = null;
           hfRowData.push(null);
         } else if (typeof value === "string" && value.startsWith("=")) {
           cell.value = { formula: value.substring(1) };
-          hfRowData.push(value);
-        } else if (value instanceof Date) {
-          cell.value = value;
-          hfRowData.push(value.getTime());
+          hfRowData.push(`=${this.resolveStructuredReferences(entry.workbook, value.substring(1), sheet.name, cell.fullAddress.row, cell.fullAddress.col)}`);
+        } else if (date) {
+          this.writeDate(cell, date);
+          hfRowData.push(this.dateToSerial(date, entry.workbook.properties.date1904));
         } else {
           cell.value = value;
-          hfRowData.push(value as RawCellContent);
+          hfRowData.push(this.toHyperFormulaContent(sheet, cell, cell.fullAddress.row, cell.fullAddress.col));
         }
       }
       hfValues.push(hfRowData);
@@ -334,142 +1259,2793 @@ export class ExcelClient {
     return columns;
   }
 
-  // Formula Support
-
-  getFormula(workbookId: string, sheetIdentifier: string | number, cellAddress: string): string | null {
-    const entry = this.getWorkbookEntry(workbookId);
-    const sheet = this.getSheet(entry.workbook, sheetIdentifier);
-    const cell = sheet.getCell(cellAddress);
+  // Row and Column Operations
 
-    return cell.formula ? `=${cell.formula}` : null;
+  insertRows(workbookId: string, sheetIdentifier: string | number, row: number, count: number = 1): void {
+    this.spliceSheet(workbookId, sheetIdentifier, "rows", row, count);
   }
 
-  recalculate(workbookId: string): { sheetsRecalculated: number; cellsRecalculated: number } {
-    const entry = this.getWorkbookEntry(workbookId);
-
-    // Re-sync all data to HyperFormula and recalculate
-    let cellsRecalculated = 0;
-
-    for (const sheet of entry.workbook.worksheets) {
-      const hfSheetId = entry.hf.getSheetId(sheet.name);
-      if (hfSheetId === undefined) continue;
-
-      // Clear and re-sync sheet data
-      const dimensions = entry.hf.getSheetDimensions(hfSheetId);
-      if (dimensions.width > 0 && dimensions.height > 0) {
-        cellsRecalculated += dimensions.width * dimensions.height;
-      }
-    }
+  deleteRows(workbookId: string, sheetIdentifier: string | number, row: number, count: number = 1): void {
+    this.spliceSheet(workbookId, sheetIdentifier, "rows", row, -count);
+  }
 
-    return {
-      sheetsRecalculated: entry.workbook.worksheets.length,
-      cellsRecalculated,
-    };
+  insertColumns(workbookId: string, sheetIdentifier: string | number, column: string | number, count: number = 1): void {
+    const col = typeof column === "string" ? this.parseCellReference(`${column}1`).col : column;
+    this.spliceSheet(workbookId, sheetIdentifier, "columns", col, count);
   }
 
-  // Charts
+  deleteColumns(workbookId: string, sheetIdentifier: string | number, column: string | number, count: number = 1): void {
+    const col = typeof column === "string" ? this.parseCellReference(`${column}1`).col : column;
+    this.spliceSheet(workbookId, sheetIdentifier, "columns", col, -count);
+  }
 
-  createChart(
+  /**
+   * Insert (delta > 0) or delete (delta < 0) rows or columns at `at`.
+   * HyperFormula moves the cells and rewrites every formula that points at
+   * them, on any sheet; ExcelJS cells, merges and tables are then brought in
+   * line and formula text is copied back from HyperFormula.
+   */
+  private spliceSheet(
     workbookId: string,
     sheetIdentifier: string | number,
-    options: {
-      type: "bar" | "line" | "pie" | "scatter";
-      dataRange: string;
-      title?: string;
-      position?: { col: number; row: number };
-    }
+    axis: "rows" | "columns",
+    at: number,
+    delta: number
   ): void {
     const entry = this.getWorkbookEntry(workbookId);
     const sheet = this.getSheet(entry.workbook, sheetIdentifier);
+    const label = axis === "rows" ? "row" : "column";
+    const count = Math.abs(delta);
 
-    // Store chart metadata (ExcelJS has limited chart support)
-    // @ts-ignore - Adding custom chart metadata
-    if (!entry.workbook.properties) {
-      // @ts-ignore
-      entry.workbook.properties = { date1904: false };
+    if (!Number.isInteger(at) || at < 1) {
+      throw new Error(`Invalid ${label}: ${at}`);
     }
-    // @ts-ignore
-    if (!entry.workbook.properties.charts) {
-      // @ts-ignore
-      entry.workbook.properties.charts = [];
+    if (!Number.isInteger(count) || count < 1) {
+      throw new Error(`Invalid count: ${count}`);
     }
-    // @ts-ignore
-    entry.workbook.properties.charts.push({
-      sheet: sheet.name,
-      type: options.type,
-      dataRange: options.dataRange,
-      title: options.title,
-      position: options.position,
+
+    // Work out where each table ends up first, so nothing changes if one can't be adjusted
+    const tableChanges = this.getTables(entry.workbook)
+      .filter(table => table.sheet === sheet)
+      .map(table => {
+        const bounds = this.getTableBounds(table.model);
+        const span =
+          axis === "rows"
+            ? this.adjustSpan(bounds.start.row, bounds.end.row, at, delta)
+            : this.adjustSpan(bounds.start.col, bounds.end.col, at, delta);
+
+        if (span && delta < 0 && axis === "rows") {
+          const deleted = (row: number | undefined) => row !== undefined && row >= at && row < at + count;
+          if (deleted(bounds.headerRow) || deleted(bounds.totalsRow)) {
+            throw new Error(`Cannot delete the header or totals row of table "${table.model.name}" without deleting the whole table`);
+          }
+          if (deleted(bounds.firstDataRow) && deleted(bounds.lastDataRow)) {
+            throw new Error(`Cannot delete every data row of table "${table.model.name}"`);
+          }
+        }
+        return { ...table, bounds, span };
+      });
+
+    // Pivot tables move with their source and output, but like Excel, lines can't be added or removed inside one
+    const shift = (range: string) => this.shiftRangeReference(range, axis, at, delta);
+    const pivotChanges = entry.pivots.map(pivot => {
+      const sourceRange = pivot.sourceSheet === sheet.name ? shift(pivot.spec.sourceRange) : pivot.spec.sourceRange;
+      if (pivot.spec.destinationSheet !== sheet.name) return { pivot, sourceRange, range: pivot.range };
+
+      const range = shift(pivot.range);
+      const size = (ref: string) => {
+        const { start, end } = this.parseRangeReference(ref);
+        return axis === "rows" ? end.row - start.row : end.col - start.col;
+      };
+      if (range !== null && size(range) !== size(pivot.range)) {
+        throw new Error(`Cannot ${delta > 0 ? "insert" : "delete"} ${label}s inside pivot table "${pivot.name}"`);
+      }
+      return { pivot, sourceRange, range };
+    });
+    this.recordChange(entry, `${delta > 0 ? "Insert" : "Delete"} ${count} ${label}${count > 1 ? "s" : ""} at ${label} ${at} of ${sheet.name}`);
+
+    const hfSheetId = entry.hf.getSheetId(sheet.name);
+    if (hfSheetId !== undefined) {
+      if (axis === "rows") {
+        if (delta > 0) entry.hf.addRows(hfSheetId, [at - 1, count]);
+        else entry.hf.removeRows(hfSheetId, [at - 1, count]);
+      } else {
+        if (delta > 0) entry.hf.addColumns(hfSheetId, [at - 1, count]);
+        else entry.hf.removeColumns(hfSheetId, [at - 1, count]);
+      }
+    }
+
+    // ExcelJS doesn't move merges reliably, so take them apart and redo them afterwards
+    const merges = sheet.model.merges ?? [];
+    for (const range of merges) {
+      sheet.unMergeCells(range);
+    }
+
+    const inserts = Array.from({ length: delta > 0 ? count : 0 }, () => []);
+    if (axis === "rows") {
+      sheet.spliceRows(at, delta > 0 ? 0 : count, ...inserts);
+    } else {
+      sheet.spliceColumns(at, delta > 0 ? 0 : count, ...inserts);
+    }
+
+    // New rows and columns take their formatting from the ones before them, as in Excel
+    if (delta > 0 && at > 1) {
+      if (axis === "rows") {
+        sheet.getRow(at - 1).eachCell({ includeEmpty: true }, (cell, col) => {
+          for (let row = at; row < at + count; row++) {
+            sheet.getCell(row, col).style = { ...cell.style };
+          }
+        });
+      } else {
+        sheet.eachRow({ includeEmpty: true }, row => {
+          const cell = row.getCell(at - 1);
+          for (let col = at; col < at + count; col++) {
+            row.getCell(col).style = { ...cell.style };
+          }
+        });
+      }
+    }
+
+    for (const range of merges) {
+      const { start, end } = this.parseRangeReference(range);
+      const span =
+        axis === "rows" ? this.adjustSpan(start.row, end.row, at, delta) : this.adjustSpan(start.col, end.col, at, delta);
+      if (!span) continue;
+
+      const [top, bottom] = axis === "rows" ? span : [start.row, end.row];
+      const [left, right] = axis === "columns" ? span : [start.col, end.col];
+      if (top !== bottom || left !== right) {
+        sheet.mergeCells(top, left, bottom, right);
+      }
+    }
+
+    // ExcelJS leaves conditional formats, validations and chart ranges where they were,
+    // and the formulas in their rules can point at this sheet from any sheet
+    for (const other of entry.workbook.worksheets) {
+      const onSheet = other === sheet;
+      const spliceFormulae = <T>(formulae: T[] | undefined) =>
+        formulae?.map(formula =>
+          typeof formula === "string" ? this.spliceFormulaReferences(formula, sheet.name, onSheet, axis, at, delta) : formula
+        );
+
+      const formattings = this.getConditionalFormattings(other)
+        .map(cf => ({
+          ...cf,
+          ref: onSheet ? cf.ref.split(/\s+/).map(shift).filter(Boolean).join(" ") : cf.ref,
+          rules: cf.rules.map(rule => ("formulae" in rule ? { ...rule, formulae: spliceFormulae(rule.formulae) } : rule)),
+        }))
+        .filter(cf => cf.ref !== "");
+      other.removeConditionalFormatting(() => false);
+      for (const cf of formattings) {
+        other.addConditionalFormatting(cf as ExcelJS.ConditionalFormattingOptions);
+      }
+
+      // Cells read from a file share one validation object, so each is rewritten once
+      const validations = this.getDataValidationModel(other);
+      const rewritten = new Map<ExcelJS.DataValidation, ExcelJS.DataValidation>();
+      const movedValidations = Object.entries(validations).flatMap(([address, validation]) => {
+        const moved = onSheet ? shift(address) : address;
+        if (!moved || !validation) return [];
+        if (!rewritten.has(validation)) {
+          rewritten.set(validation, validation.formulae ? { ...validation, formulae: spliceFormulae(validation.formulae)! } : validation);
+        }
+        return [[moved, rewritten.get(validation)!] as const];
+      });
+      for (const address of Object.keys(validations)) {
+        delete validations[address];
+      }
+      for (const [address, validation] of movedValidations) {
+        validations[address] = validation;
+      }
+    }
+
+    entry.charts = entry.charts.filter(chart => {
+      if (chart.sheet !== sheet.name || chart.placement || !chart.dataRange) return true;
+      const dataRange = shift(chart.dataRange);
+      if (dataRange) chart.dataRange = dataRange;
+      return dataRange !== null;
     });
+
+    // Pivot tables whose source or output is deleted entirely become plain cells
+    entry.pivots = pivotChanges
+      .filter(({ sourceRange, range }) => sourceRange !== null && range !== null)
+      .map(({ pivot, sourceRange, range }) => {
+        pivot.spec.sourceRange = sourceRange!;
+        if (range !== pivot.range) {
+          pivot.spec.destinationCell = shift(pivot.spec.destinationCell!)!;
+          pivot.location.ref = shift(pivot.location.ref)!;
+          pivot.range = range!;
+        }
+        return pivot;
+      });
+
+    for (const { model, bounds, span } of tableChanges) {
+      if (!span) {
+        sheet.removeTable(model.name);
+        continue;
+      }
+
+      if (axis === "rows") {
+        const lastDataRow = model.totalsRow ? span[1] - 1 : span[1];
+        model.tableRef = this.formatRangeReference({ row: span[0], col: bounds.start.col }, { row: span[1], col: bounds.end.col });
+        model.autoFilterRef = this.formatRangeReference({ row: span[0], col: bounds.start.col }, { row: lastDataRow, col: bounds.end.col });
+        continue;
+      }
+
+      if (delta > 0 && at > bounds.start.col && at <= bounds.end.col) {
+        // Columns inserted inside a table become new table columns
+        const added: TableModel["columns"] = [];
+        for (let n = 1; added.length < count; n++) {
+          if (!model.columns.some(c => c.name.toLowerCase() === `column${n}`)) {
+            added.push({ name: `Column${n}`, totalsRowFunction: "none" });
+          }
+        }
+        model.columns.splice(at - bounds.start.col, 0, ...added);
+        added.forEach((column, i) => {
+          if (bounds.headerRow !== undefined) sheet.getCell(bounds.headerRow, at + i).value = column.name;
+        });
+      } else if (delta < 0) {
+        const first = Math.max(at, bounds.start.col);
+        const last = Math.min(at + count - 1, bounds.end.col);
+        if (first <= last) model.columns.splice(first - bounds.start.col, last - first + 1);
+      }
+      const start = { row: bounds.start.row, col: span[0] };
+      model.tableRef = this.formatRangeReference(start, { row: bounds.end.row, col: span[1] });
+      model.autoFilterRef = this.formatRangeReference(start, { row: bounds.lastDataRow, col: span[1] });
+    }
+
+    this.syncFormulasFromHyperFormula(entry);
+    this.syncNamesFromHyperFormula(entry);
+    this.syncStructuredReferences(entry);
   }
 
-  deleteChart(workbookId: string, sheetIdentifier: string | number, chartName: string): void {
+  // A range after the same insert or delete, or null when it is deleted entirely. Other references are kept as they are.
+  private shiftRangeReference(range: string, axis: "rows" | "columns", at: number, delta: number): string | null {
+    if (!/^[A-Z]+\d+(:[A-Z]+\d+)?$/i.test(range)) return range;
+    const { start, end } = this.parseRangeReference(range);
+    const span = axis === "rows" ? this.adjustSpan(start.row, end.row, at, delta) : this.adjustSpan(start.col, end.col, at, delta);
+    if (!span) return null;
+    return axis === "rows"
+      ? this.formatRangeReference({ row: span[0], col: start.col }, { row: span[1], col: end.col })
+      : this.formatRangeReference({ row: start.row, col: span[0] }, { row: end.row, col: span[1] });
+  }
+
+  /**
+   * Where the line span first..last ends up after inserting (delta > 0) or
+   * deleting (delta < 0) |delta| lines at `at`. Null when it is deleted entirely.
+   */
+  private adjustSpan(first: number, last: number, at: number, delta: number): [number, number] | null {
+    if (delta > 0) {
+      if (first >= at) return [first + delta, last + delta];
+      if (last >= at) return [first, last + delta];
+      return [first, last];
+    }
+
+    const end = at - delta;
+    const newFirst = first < at ? first : first >= end ? first + delta : at;
+    const newLast = last < at ? last : last >= end ? last + delta : at - 1;
+    return newLast < newFirst ? null : [newFirst, newLast];
+  }
+
+  // Sorting
+
+  /**
+   * Sort the rows of a range by one or more keys, compared on calculated
+   * values. Each row keeps its formatting, and relative references in its
+   * formulas are moved with it. Blank keys always sort last, as in Excel.
+   */
+  sortRange(
+    workbookId: string,
+    sheetIdentifier: string | number,
+    range: string,
+    options: { hasHeader?: boolean; keys: SortKey[] }
+  ): { range: string; rowsSorted: number } {
     const entry = this.getWorkbookEntry(workbookId);
+    const sheet = this.getSheet(entry.workbook, sheetIdentifier);
+    const hfSheetId = entry.hf.getSheetId(sheet.name);
+    const { start, end } = this.parseRangeReference(range);
+    const firstRow = options.hasHeader ? start.row + 1 : start.row;
+
+    if (options.keys.length === 0) {
+      throw new Error("At least one sort key is required");
+    }
+    for (const merge of sheet.model.merges ?? []) {
+      const bounds = this.parseRangeReference(merge);
+      if (bounds.start.row <= end.row && bounds.end.row >= firstRow && bounds.start.col <= end.col && bounds.end.col >= start.col) {
+        throw new Error(`Cannot sort a range containing merged cells (${merge})`);
+      }
+    }
 
-    // Remove from stored chart metadata
-    // @ts-ignore
-    if (entry.workbook.properties?.charts) {
-      // @ts-ignore
-      entry.workbook.properties.charts = entry.workbook.properties.charts.filter(
-        (c: { title: string }) => c.title !== chartName
+    const keyColumns = options.keys.map(key => {
+      let col: number | undefined;
+      if (options.hasHeader) {
+        for (let c = start.col; c <= end.col && col === undefined; c++) {
+          if (sheet.getCell(start.row, c).text.trim().toLowerCase() === key.column.trim().toLowerCase()) col = c;
+        }
+      }
+      col ??= /^[A-Za-z]{1,3}$/.test(key.column) ? this.parseCellReference(`${key.column}1`).col : undefined;
+      if (col === undefined || col < start.col || col > end.col) {
+        throw new Error(`Sort column "${key.column}" is not in range ${range}`);
+      }
+      if (key.type === "custom" && !key.customList?.length) {
+        throw new Error(`Sort key "${key.column}" needs a customList`);
+      }
+      return col;
+    });
+    this.recordChange(entry, `Sort ${sheet.name}!${range}`);
+
+    const rows: Array<{ row: number; keys: unknown[]; cells: Array<{ value: ExcelJS.CellValue; formula?: string; style: Partial<ExcelJS.Style> }> }> = [];
+    for (let row = firstRow; row <= end.row; row++) {
+      const cells = [];
+      for (let col = start.col; col <= end.col; col++) {
+        const cell = sheet.getCell(row, col);
+        cells.push({ value: cell.value, formula: cell.formula || undefined, style: { ...cell.style } });
+      }
+      const keys = keyColumns.map(col =>
+        hfSheetId !== undefined ? entry.hf.getCellValue({ sheet: hfSheetId, row: row - 1, col: col - 1 }) : sheet.getCell(row, col).value
       );
+      rows.push({ row, keys, cells });
+    }
+
+    // Array.prototype.sort is stable, so rows with equal keys keep their order
+    rows.sort((a, b) => {
+      for (let i = 0; i < options.keys.length; i++) {
+        const result = this.compareSortValues(a.keys[i], b.keys[i], options.keys[i]);
+        if (result !== 0) return result;
+      }
+      return 0;
+    });
+
+    rows.forEach((source, index) => {
+      const row = firstRow + index;
+      source.cells.forEach((saved, offset) => {
+        const cell = sheet.getCell(row, start.col + offset);
+        cell.value = saved.formula ? { formula: this.shiftFormula(saved.formula, row - source.row, 0) } : saved.value;
+        cell.style = saved.style;
+      });
+    });
+
+    if (hfSheetId !== undefined && rows.length > 0) {
+      const hfValues: RawCellContent[][] = [];
+      for (let row = firstRow; row <= end.row; row++) {
+        const hfRowData: RawCellContent[] = [];
+        for (let col = start.col; col <= end.col; col++) {
+          hfRowData.push(this.toHyperFormulaContent(sheet, sheet.getCell(row, col), row, col));
+        }
+        hfValues.push(hfRowData);
+      }
+      entry.hf.setCellContents({ sheet: hfSheetId, row: firstRow - 1, col: start.col - 1 }, hfValues);
     }
+
+    return { range: this.formatRangeReference({ row: firstRow, col: start.col }, end), rowsSorted: rows.length };
   }
 
-  // Pivot Tables
+  private compareSortValues(a: unknown, b: unknown, key: SortKey): number {
+    const blank = (value: unknown) => value === null || value === undefined || value === "";
+    if (blank(a) || blank(b)) {
+      return blank(a) === blank(b) ? 0 : blank(a) ? 1 : -1;
+    }
 
-  createPivotTable(
-    workbookId: string,
-    sourceSheet: string | number,
-    options: {
-      sourceRange: string;
-      destinationSheet?: string;
-      destinationCell?: string;
-      rowFields: string[];
-      columnFields?: string[];
-      dataFields: Array<{ field: string; aggregation: "sum" | "count" | "average" | "min" | "max" }>;
+    // Rank by kind first, then by value; values that don't fit the key type sort after those that do
+    const rankOf = (value: unknown): [number, number | string] => {
+      switch (key.type) {
+        case "number": {
+          const number = typeof value === "number" ? value : typeof value === "string" ? Number(value) : NaN;
+          return isNaN(number) ? [1, String(value).toLowerCase()] : [0, number];
+        }
+        case "date": {
+          const time = typeof value === "number" ? value : typeof value === "string" ? Date.parse(value) : NaN;
+          return isNaN(time) ? [1, String(value).toLowerCase()] : [0, time];
+        }
+        case "text":
+          return [0, value instanceof DetailedCellError ? value.value : String(value).toLowerCase()];
+        case "custom": {
+          const index = key.customList!.findIndex(item => item.toLowerCase() === String(value).toLowerCase());
+          return index >= 0 ? [0, index] : [1, String(value).toLowerCase()];
+        }
+        default:
+          // Excel's order for mixed values: numbers, text, booleans, errors
+          if (typeof value === "number") return [0, value];
+          if (typeof value === "string") return [1, value.toLowerCase()];
+          if (typeof value === "boolean") return [2, Number(value)];
+          return [3, String(value instanceof DetailedCellError ? value.value : value)];
+      }
+    };
+
+    const [rankA, valueA] = rankOf(a);
+    const [rankB, valueB] = rankOf(b);
+    let result: number;
+    if (rankA !== rankB) {
+      // Descending mixed values reverse the kind order too, as Excel does
+      if (key.type !== undefined) return rankA - rankB;
+      result = rankA - rankB;
+    } else if (typeof valueA === "number" && typeof valueB === "number") {
+      result = valueA - valueB;
+    } else {
+      result = String(valueA).localeCompare(String(valueB));
     }
-  ): { sheet: string; cell: string } {
+    return key.order === "desc" ? -result : result;
+  }
+
+  // Queries
+
+  /**
+   * Filter, group, sort and project sheet data without returning the whole
+   * range. The first row of the range (or of the sheet's used area) holds the
+   * column names, and every comparison runs on calculated values.
+   */
+  querySheet(
+    workbookId: string,
+    sheetIdentifier: string | number,
+    query: QuerySpec
+  ): { columns: string[]; rows: Array<Record<string, unknown>>; matched: number } {
     const entry = this.getWorkbookEntry(workbookId);
-    const srcSheet = this.getSheet(entry.workbook, sourceSheet);
+    const sheet = this.getSheet(entry.workbook, sheetIdentifier);
+    const { headers, records } = this.readRecords(entry, sheet, query.range);
 
-    // Read source data using HyperFormula for calculated values
-    const [startCell, endCell] = options.sourceRange.split(":");
-    const startRef = this.parseCellReference(startCell);
-    const endRef = this.parseCellReference(endCell);
+    const checkField = (field: string): void => {
+      if (!headers.includes(field)) {
+        throw new Error(`Unknown column "${field}". Columns: ${headers.join(", ")}`);
+      }
+    };
+
+    const matches = (record: Record<string, unknown>, condition: QueryCondition): boolean => {
+      if ("and" in condition) return condition.and.every(c => matches(record, c));
+      if ("or" in condition) return condition.or.some(c => matches(record, c));
+      if ("not" in condition) return !matches(record, condition.not);
+
+      checkField(condition.field);
+      return this.evaluateQueryComparison(record[condition.field], condition.op, condition.value);
+    };
+    const filtered = query.where ? records.filter(record => matches(record, query.where!)) : records;
+
+    const groupBy = query.groupBy ?? [];
+    groupBy.forEach(checkField);
+    const select: QuerySelectItem[] = (query.select ?? (groupBy.length > 0 ? [...groupBy, { aggregation: "count" }] : headers)).map(item =>
+      typeof item === "string" ? { field: item } : item
+    );
+    const columnName = (item: QuerySelectItem): string =>
+      item.as ?? (item.aggregation ? `${item.aggregation.toUpperCase()}(${item.field ?? "*"})` : item.field!);
+
+    for (const item of select) {
+      if (item.field !== undefined) checkField(item.field);
+      if (item.field === undefined && item.aggregation !== "count") {
+        throw new Error("Select items need a field unless they count rows");
+      }
+    }
+
+    // Each output row keeps its source rows so ORDER BY can use columns that aren't selected
+    let output: Array<{ record: Record<string, unknown>; source: Record<string, unknown> }>;
+    if (groupBy.length > 0 || select.some(item => item.aggregation)) {
+      for (const item of select) {
+        if (!item.aggregation && !groupBy.includes(item.field!)) {
+          throw new Error(`Column "${item.field}" must be in groupBy or use an aggregation`);
+        }
+      }
+
+      const groups = new Map<string, Array<Record<string, unknown>>>();
+      for (const record of filtered) {
+        const key = JSON.stringify(groupBy.map(field => record[field]));
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key)!.push(record);
+      }
+      if (groups.size === 0 && groupBy.length === 0) groups.set("[]", []);
+
+      output = [...groups.values()].map(rows => {
+        const record: Record<string, unknown> = {};
+        for (const item of select) {
+          record[columnName(item)] = item.aggregation
+            ? this.aggregate(item.aggregation, item.field !== undefined ? rows.map(row => row[item.field!]) : rows)
+            : rows[0]?.[item.field!];
+        }
+        return { record, source: rows[0] ?? {} };
+      });
+    } else {
+      output = filtered.map(source => {
+        const record: Record<string, unknown> = {};
+        for (const item of select) record[columnName(item)] = source[item.field!];
+        return { record, source };
+      });
+    }
+
+    if (query.orderBy?.length) {
+      const keys = query.orderBy.map(order => {
+        const inOutput = select.some(item => columnName(item) === order.field);
+        if (!inOutput) checkField(order.field);
+        return { ...order, inOutput };
+      });
+      output.sort((a, b) => {
+        for (const key of keys) {
+          const valueA = key.inOutput ? a.record[key.field] : a.source[key.field];
+          const valueB = key.inOutput ? b.record[key.field] : b.source[key.field];
+          const result = this.compareSortValues(valueA, valueB, { column: key.field, order: key.order });
+          if (result !== 0) return result;
+        }
+        return 0;
+      });
+    }
+
+    const offset = query.offset ?? 0;
+    const rows = output.slice(offset, query.limit !== undefined ? offset + query.limit : undefined).map(row => row.record);
+    return { columns: select.map(columnName), rows, matched: output.length };
+  }
+
+  private evaluateQueryComparison(value: unknown, op: QueryComparison["op"], operand: unknown): boolean {
+    const isNull = value === null || value === undefined || value === "";
+    const equals = (a: unknown, b: unknown): boolean =>
+      typeof a === "string" && typeof b === "string" ? a.toLowerCase() === b.toLowerCase() : a === b;
+
+    switch (op) {
+      case "isNull":
+        return isNull;
+      case "isNotNull":
+        return !isNull;
+      case "=":
+        return equals(value, operand);
+      case "!=":
+        return !equals(value, operand);
+      case "in":
+        return Array.isArray(operand) && operand.some(item => equals(value, item));
+      case "notIn":
+        return Array.isArray(operand) && !operand.some(item => equals(value, item));
+      case "contains":
+        return !isNull && String(value).toLowerCase().includes(String(operand).toLowerCase());
+      case "startsWith":
+        return !isNull && String(value).toLowerCase().startsWith(String(operand).toLowerCase());
+      case "endsWith":
+        return !isNull && String(value).toLowerCase().endsWith(String(operand).toLowerCase());
+      default: {
+        // Ordering comparisons only apply between two numbers or two strings
+        let result: number;
+        if (typeof value === "number" && typeof operand === "number") {
+          result = value - operand;
+        } else if (typeof value === "string" && typeof operand === "string") {
+          result = value.localeCompare(operand, undefined, { sensitivity: "base" });
+        } else {
+          return false;
+        }
+        return op === ">" ? result > 0 : op === ">=" ? result >= 0 : op === "<" ? result < 0 : result <= 0;
+      }
+    }
+  }
 
-    const hfSheetId = entry.hf.getSheetId(srcSheet.name);
+  // Read a range as records keyed by its first row, using calculated values
+  private readRecords(
+    entry: WorkbookEntry,
+    sheet: ExcelJS.Worksheet,
+    range?: string
+  ): { headers: string[]; records: Array<Record<string, unknown>> } {
+    const hfSheetId = entry.hf.getSheetId(sheet.name);
+    const { start, end } = range
+      ? this.parseRangeReference(range)
+      : {
+          start: { row: sheet.dimensions.top, col: sheet.dimensions.left },
+          end: { row: sheet.dimensions.bottom, col: sheet.dimensions.right },
+        };
+
+    const valueAt = (row: number, col: number): unknown => {
+      const cell = sheet.findCell(row, col);
+      const value =
+        hfSheetId !== undefined ? entry.hf.getCellValue({ sheet: hfSheetId, row: row - 1, col: col - 1 }) : cell?.value;
+      return value instanceof DetailedCellError ? value.value : this.toReadValue(entry.workbook, cell, value);
+    };
 
-    // Get headers from first row
+    // Keys come from the header row, made unique the way Excel names table columns
     const headers: string[] = [];
-    for (let col = startRef.col; col <= endRef.col; col++) {
-      if (hfSheetId !== undefined) {
-        const val = entry.hf.getCellValue({ sheet: hfSheetId, row: startRef.row - 1, col: col - 1 });
-        headers.push(String(val || `Column${col}`));
-      } else {
-        const cell = srcSheet.getCell(startRef.row, col);
-        headers.push(String(cell.value || `Column${col}`));
+    for (let col = start.col; col <= end.col; col++) {
+      const value = valueAt(start.row, col);
+      const header = value === null || value === undefined || value === "" ? `Column${col - start.col + 1}` : String(value);
+      let name = header;
+      for (let n = 2; headers.some(h => h.toLowerCase() === name.toLowerCase()); n++) {
+        name = `${header}${n}`;
       }
+      headers.push(name);
     }
 
-    // Read data rows using calculated values
-    const data: Array<Record<string, unknown>> = [];
-    for (let row = startRef.row + 1; row <= endRef.row; row++) {
-      const rowData: Record<string, unknown> = {};
-      for (let col = startRef.col; col <= endRef.col; col++) {
+    const records: Array<Record<string, unknown>> = [];
+    for (let row = start.row + 1; row <= end.row; row++) {
+      const record: Record<string, unknown> = {};
+      headers.forEach((header, index) => {
+        record[header] = valueAt(row, start.col + index);
+      });
+      records.push(record);
+    }
+    return { headers, records };
+  }
+
+  // Find and Replace
+
+  find(
+    workbookId: string,
+    query: string,
+    options: FindOptions = {}
+  ): Array<{ sheet: string; cell: string; value: unknown; calculatedValue: unknown; formula?: string }> {
+    const entry = this.getWorkbookEntry(workbookId);
+    const pattern = this.buildFindPattern(query, options);
+    const results: Array<{ sheet: string; cell: string; value: unknown; calculatedValue: unknown; formula?: string }> = [];
+
+    this.searchCells(entry, options, (sheet, cell, calculatedValue) => {
+      const lookIn = options.lookIn ?? "both";
+      const formula = cell.formula ? `=${cell.formula}` : undefined;
+      const found =
+        (lookIn !== "formulas" && this.findText(cell, calculatedValue).search(pattern) >= 0) ||
+        (lookIn !== "values" && formula !== undefined && formula.search(pattern) >= 0);
+
+      if (found) {
+        results.push({ sheet: sheet.name, cell: cell.address, value: cell.value, calculatedValue, formula });
+      }
+      return options.limit === undefined || results.length < options.limit;
+    });
+
+    return results;
+  }
+
+  /**
+   * Replace matches in constant text and numbers (lookIn "values") and in
+   * formula text (lookIn "formulas"). Calculated results are never edited;
+   * change the formula or its inputs instead.
+   */
+  replace(
+    workbookId: string,
+    query: string,
+    replacement: string,
+    options: Omit<FindOptions, "limit"> = {}
+  ): { cellsChanged: number; cells: string[] } {
+    const entry = this.getWorkbookEntry(workbookId);
+    const pattern = this.buildFindPattern(query, options);
+    const lookIn = options.lookIn ?? "both";
+    const changes: Array<{ sheet: ExcelJS.Worksheet; address: string; value: string | number; formula: boolean }> = [];
+    // Only regex replacements expand $1, $& and $$
+    const replaceIn = (text: string) => (options.regex ? text.replace(pattern, replacement) : text.replace(pattern, () => replacement));
+
+    this.searchCells(entry, options, (sheet, cell) => {
+      if (cell.formula) {
+        if (lookIn === "values") return true;
+        const formula = `=${cell.formula}`;
+        const updated = replaceIn(formula);
+        if (updated !== formula) changes.push({ sheet, address: cell.address, value: updated, formula: true });
+      } else if (lookIn !== "formulas" && (typeof cell.value === "string" || typeof cell.value === "number")) {
+        const text = String(cell.value);
+        const updated = replaceIn(text);
+        if (updated === text) return true;
+
+        // Numbers stay numbers when the replaced text is still numeric
+        const value = typeof cell.value === "number" && updated.trim() !== "" && !isNaN(Number(updated)) ? Number(updated) : updated;
+        changes.push({ sheet, address: cell.address, value, formula: false });
+      }
+      return true;
+    });
+
+    // Write after searching so a replacement can't be matched again
+    if (changes.length > 0) {
+      this.recordChange(entry, `Replace "${query}" with "${replacement}"`);
+    }
+    this.withoutHistory(() => {
+      for (const change of changes) {
+        if (change.formula || typeof change.value === "number") {
+          this.writeCell(workbookId, change.sheet.name, change.address, change.value);
+          continue;
+        }
+
+        // Replaced text stays text, even when it now starts with "=" or looks like a date
+        const cell = change.sheet.getCell(change.address);
+        cell.value = change.value;
+        const hfSheetId = entry.hf.getSheetId(change.sheet.name);
         if (hfSheetId !== undefined) {
-          const val = entry.hf.getCellValue({ sheet: hfSheetId, row: row - 1, col: col - 1 });
-          rowData[headers[col - startRef.col]] = val;
+          const { row, col } = cell.fullAddress;
+          entry.hf.setCellContents({ sheet: hfSheetId, row: row - 1, col: col - 1 }, this.toHyperFormulaContent(change.sheet, cell, row, col));
+        }
+      }
+    });
+
+    return {
+      cellsChanged: changes.length,
+      cells: changes.map(change => `${this.quoteSheetName(change.sheet.name)}!${change.address}`),
+    };
+  }
+
+  private buildFindPattern(query: string, options: FindOptions): RegExp {
+    const source = options.regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    try {
+      return new RegExp(options.wholeCell ? `^(?:${source})$` : source, options.matchCase ? "g" : "gi");
+    } catch (error) {
+      throw new Error(`Invalid regular expression: ${(error as Error).message}`);
+    }
+  }
+
+  // Visit every non-empty cell of the chosen sheets until the callback returns false
+  private searchCells(
+    entry: WorkbookEntry,
+    options: FindOptions,
+    visit: (sheet: ExcelJS.Worksheet, cell: ExcelJS.Cell, calculatedValue: unknown) => boolean
+  ): void {
+    const sheets = options.sheet !== undefined ? [this.getSheet(entry.workbook, options.sheet)] : entry.workbook.worksheets;
+
+    for (const sheet of sheets) {
+      const hfSheetId = entry.hf.getSheetId(sheet.name);
+      const cells: ExcelJS.Cell[] = [];
+      sheet.eachRow(row => row.eachCell(cell => void cells.push(cell)));
+
+      for (const cell of cells) {
+        const { row, col } = cell.fullAddress;
+        const calculatedValue =
+          hfSheetId !== undefined ? entry.hf.getCellValue({ sheet: hfSheetId, row: row - 1, col: col - 1 }) : cell.value;
+        if (!visit(sheet, cell, calculatedValue)) return;
+      }
+    }
+  }
+
+  // The text a value search matches: the calculated result for formulas, the constant otherwise
+  private findText(cell: ExcelJS.Cell, calculatedValue: unknown): string {
+    if (cell.formula) {
+      if (calculatedValue instanceof DetailedCellError) return calculatedValue.value;
+      return calculatedValue === null || calculatedValue === undefined ? "" : String(calculatedValue);
+    }
+    return cell.value instanceof Date ? cell.value.toISOString() : cell.text;
+  }
+
+  // Comparison
+
+  /**
+   * Compare a workbook with another open workbook, or with its own file on
+   * disk when no base is given. Sheets are matched by name; a removed and an
+   * added sheet with mostly the same cells are reported as a rename.
+   */
+  async diffWorkbooks(
+    workbookId: string,
+    baseWorkbookId?: string,
+    options: { includeStyles?: boolean; markdown?: boolean; limit?: number } = {}
+  ): Promise<WorkbookDiff> {
+    const entry = this.getWorkbookEntry(workbookId);
+    if (!baseWorkbookId && !entry.path) {
+      throw new Error("Workbook has no file on disk to compare with; specify a base workbook");
+    }
+    const base = baseWorkbookId ? this.getWorkbookEntry(baseWorkbookId) : await this.loadWorkbook(entry.path!);
+
+    try {
+      const includeStyles = options.includeStyles ?? true;
+      const limit = options.limit ?? 500;
+      const diff: WorkbookDiff = {
+        base: baseWorkbookId ?? entry.path!,
+        sheets: { added: [], removed: [], renamed: [] },
+        summary: { valueChanges: 0, formulaChanges: 0, resultChanges: 0, styleChanges: 0 },
+        cells: [],
+        styles: includeStyles ? [] : undefined,
+      };
+
+      const pairs: Array<[ExcelJS.Worksheet, ExcelJS.Worksheet]> = [];
+      const removed = base.workbook.worksheets.filter(sheet => {
+        const match = entry.workbook.worksheets.find(s => s.name === sheet.name);
+        if (match) pairs.push([sheet, match]);
+        return !match;
+      });
+      const added = entry.workbook.worksheets.filter(sheet => !base.workbook.getWorksheet(sheet.name));
+
+      for (const sheet of removed) {
+        const before = this.readCellSnapshots(base, sheet);
+        let best: { sheet: ExcelJS.Worksheet; similarity: number } | undefined;
+        for (const candidate of added) {
+          const after = this.readCellSnapshots(entry, candidate);
+          const size = Math.max(before.size, after.size);
+          const same = [...before].filter(([address, cell]) => JSON.stringify(after.get(address)) === JSON.stringify(cell)).length;
+          // Empty sheets have nothing to recognize them by
+          const similarity = size === 0 ? 0 : same / size;
+          if (similarity >= 0.5 && (!best || similarity > best.similarity)) best = { sheet: candidate, similarity };
+        }
+
+        if (best) {
+          added.splice(added.indexOf(best.sheet), 1);
+          pairs.push([sheet, best.sheet]);
+          diff.sheets.renamed.push({ from: sheet.name, to: best.sheet.name });
         } else {
-          const cell = srcSheet.getCell(row, col);
-          rowData[headers[col - startRef.col]] = cell.value;
+          diff.sheets.removed.push(sheet.name);
+        }
+      }
+      diff.sheets.added = added.map(sheet => sheet.name);
+
+      for (const [baseSheet, sheet] of pairs) {
+        const before = this.readCellSnapshots(base, baseSheet);
+        const after = this.readCellSnapshots(entry, sheet);
+
+        const addresses = new Map<string, { row: number; col: number }>();
+        for (const target of includeStyles ? [baseSheet, sheet] : []) {
+          target.eachRow({ includeEmpty: true }, row =>
+            row.eachCell({ includeEmpty: true }, cell => void addresses.set(cell.address, cell.fullAddress))
+          );
+        }
+        for (const address of [...before.keys(), ...after.keys()]) {
+          if (!addresses.has(address)) addresses.set(address, this.parseCellReference(address));
+        }
+        const sorted = [...addresses].sort(([, a], [, b]) => a.row - b.row || a.col - b.col);
+
+        for (const [address, { row, col }] of sorted) {
+          const beforeCell = before.get(address) ?? null;
+          const afterCell = after.get(address) ?? null;
+          if (JSON.stringify(beforeCell) !== JSON.stringify(afterCell)) {
+            const kind =
+              beforeCell?.formula !== afterCell?.formula ? "formula" : beforeCell?.formula !== undefined ? "result" : "value";
+            diff.summary[`${kind}Changes`]++;
+            if (diff.cells.length < limit) {
+              diff.cells.push({ sheet: sheet.name, cell: address, kind, before: beforeCell, after: afterCell });
+            } else {
+              diff.truncated = true;
+            }
+          }
+
+          if (!diff.styles) continue;
+          // findCell so comparing doesn't create cells in either workbook
+          const beforeStyle = this.toStyleSpec(baseSheet.findCell(row, col)?.style ?? {});
+          const afterStyle = this.toStyleSpec(sheet.findCell(row, col)?.style ?? {});
+          const properties = (["font", "fill", "border", "alignment", "numFmt"] as const).filter(
+            property => JSON.stringify(beforeStyle[property] ?? {}) !== JSON.stringify(afterStyle[property] ?? {})
+          );
+          if (properties.length > 0) {
+            diff.summary.styleChanges++;
+            if (diff.styles.length < limit) {
+              diff.styles.push({ sheet: sheet.name, cell: address, properties, before: beforeStyle, after: afterStyle });
+            } else {
+              diff.truncated = true;
+            }
+          }
+        }
+      }
+
+      if (options.markdown) {
+        diff.markdown = this.formatDiffMarkdown(diff);
+      }
+      return diff;
+    } finally {
+      if (!baseWorkbookId) base.hf.destroy();
+    }
+  }
+
+  // Non-empty cells keyed by address, with dates and errors as text so snapshots compare as JSON
+  private readCellSnapshots(entry: WorkbookEntry, sheet: ExcelJS.Worksheet): Map<string, CellSnapshot> {
+    const hfSheetId = entry.hf.getSheetId(sheet.name);
+    const snapshots = new Map<string, CellSnapshot>();
+
+    sheet.eachRow(row => {
+      row.eachCell(cell => {
+        if (cell.formula) {
+          const { row: rowNumber, col } = cell.fullAddress;
+          const calculatedValue =
+            hfSheetId !== undefined ? entry.hf.getCellValue({ sheet: hfSheetId, row: rowNumber - 1, col: col - 1 }) : cell.result;
+          snapshots.set(cell.address, { formula: `=${cell.formula}`, calculatedValue: this.toComparableValue(calculatedValue) });
+        } else if (cell.type !== ExcelJS.ValueType.Merge) {
+          snapshots.set(cell.address, { value: this.toComparableValue(cell.value) });
+        }
+      });
+    });
+    return snapshots;
+  }
+
+  private toComparableValue(value: unknown): unknown {
+    if (value instanceof Date) return value.toISOString();
+    if (value instanceof DetailedCellError) return value.value;
+    if (value && typeof value === "object") {
+      const object = value as { richText?: Array<{ text: string }>; text?: unknown; error?: string };
+      if (object.richText) return object.richText.map(run => run.text).join("");
+      if (object.error) return object.error;
+      if (object.text !== undefined) return this.toComparableValue(object.text);
+    }
+    return value ?? null;
+  }
+
+  private formatDiffMarkdown(diff: WorkbookDiff): string {
+    const lines = [`Compared with ${diff.base}`, ""];
+    const { added, removed, renamed } = diff.sheets;
+    if (added.length > 0) lines.push(`- Sheets added: ${added.join(", ")}`);
+    if (removed.length > 0) lines.push(`- Sheets removed: ${removed.join(", ")}`);
+    if (renamed.length > 0) lines.push(`- Sheets renamed: ${renamed.map(r => `${r.from} → ${r.to}`).join(", ")}`);
+
+    const { valueChanges, formulaChanges, resultChanges, styleChanges } = diff.summary;
+    lines.push(
+      `- ${valueChanges} value, ${formulaChanges} formula, ${resultChanges} calculated result and ${styleChanges} style changes`
+    );
+    if (diff.cells.length === 0 && !diff.styles?.length) {
+      return lines.join("\n");
+    }
+
+    const describe = (cell: CellSnapshot | null): string => {
+      if (!cell) return "";
+      const text = cell.formula !== undefined ? `${cell.formula} → ${cell.calculatedValue}` : String(cell.value);
+      return text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+    };
+    lines.push("", "| Sheet | Cell | Change | Before | After |", "|---|---|---|---|---|");
+    for (const change of diff.cells) {
+      lines.push(`| ${change.sheet} | ${change.cell} | ${change.kind} | ${describe(change.before)} | ${describe(change.after)} |`);
+    }
+    for (const change of diff.styles ?? []) {
+      lines.push(`| ${change.sheet} | ${change.cell} | style | | ${change.properties.join(", ")} |`);
+    }
+    if (diff.truncated) lines.push("", "(more changes not shown)");
+    return lines.join("\n");
+  }
+
+  // Formatting
+
+  formatRange(
+    workbookId: string,
+    sheetIdentifier: string | number,
+    range: string,
+    style: StyleSpec
+  ): { range: string; cellsFormatted: number } {
+    const entry = this.getWorkbookEntry(workbookId);
+    const sheet = this.getSheet(entry.workbook, sheetIdentifier);
+    const { start, end } = this.parseRangeReference(range);
+
+    const font = style.font ? this.toExcelFont(style.font) : undefined;
+    const fill: ExcelJS.Fill | undefined = style.fill
+      ? {
+          type: "pattern",
+          pattern: style.fill.pattern ?? "solid",
+          fgColor: { argb: this.parseColor(style.fill.color) },
+        }
+      : undefined;
+    const numFmt = style.numFmt !== undefined ? NUMBER_FORMATS[style.numFmt.toLowerCase()] ?? style.numFmt : undefined;
+    const toBorder = (spec: BorderSpec | undefined): Partial<ExcelJS.Border> | undefined =>
+      spec && { style: spec.style, color: { argb: this.parseColor(spec.color ?? "000000") } };
+    const b = style.border && {
+      top: toBorder(style.border.top),
+      bottom: toBorder(style.border.bottom),
+      left: toBorder(style.border.left),
+      right: toBorder(style.border.right),
+      all: toBorder(style.border.all),
+      outline: toBorder(style.border.outline),
+    };
+    this.recordChange(entry, `Format ${sheet.name}!${range}`);
+
+    let cellsFormatted = 0;
+    for (let row = start.row; row <= end.row; row++) {
+      for (let col = start.col; col <= end.col; col++) {
+        const cell = sheet.getCell(row, col);
+
+        // Cells can share a style object with their row or column, so always
+        // assign a fresh copy rather than mutating cell.style in place
+        const cellStyle: Partial<ExcelJS.Style> = { ...cell.style };
+        if (font) cellStyle.font = { ...cell.style.font, ...font };
+        if (fill) cellStyle.fill = fill;
+        if (style.alignment) cellStyle.alignment = { ...cell.style.alignment, ...style.alignment };
+        if (numFmt !== undefined) cellStyle.numFmt = numFmt;
+        if (b) {
+          const border: Partial<ExcelJS.Borders> = { ...cell.style.border };
+          const edges = {
+            top: b.top ?? b.all ?? (row === start.row ? b.outline : undefined),
+            bottom: b.bottom ?? b.all ?? (row === end.row ? b.outline : undefined),
+            left: b.left ?? b.all ?? (col === start.col ? b.outline : undefined),
+            right: b.right ?? b.all ?? (col === end.col ? b.outline : undefined),
+          };
+          for (const [edge, spec] of Object.entries(edges)) {
+            if (spec) {
+              border[edge as "top" | "bottom" | "left" | "right"] = { ...spec };
+            }
+          }
+          cellStyle.border = border;
         }
+
+        cell.style = cellStyle;
+        cellsFormatted++;
+      }
+    }
+
+    return { range, cellsFormatted };
+  }
+
+  getCellStyle(workbookId: string, sheetIdentifier: string | number, cellAddress: string): StyleSpec {
+    const entry = this.getWorkbookEntry(workbookId);
+    const sheet = this.getSheet(entry.workbook, sheetIdentifier);
+    const style = sheet.getCell(cellAddress).style;
+
+    return { ...this.toStyleSpec(style), numFmt: style.numFmt || "General" };
+  }
+
+  private toStyleSpec(style: Partial<ExcelJS.Style>): StyleSpec {
+    const result: StyleSpec = {};
+    if (style.font) {
+      result.font = {
+        name: style.font.name,
+        size: style.font.size,
+        bold: style.font.bold,
+        italic: style.font.italic,
+        underline: style.font.underline === undefined ? undefined : Boolean(style.font.underline) && style.font.underline !== "none",
+        strike: style.font.strike,
+        color: this.formatColor(style.font.color),
+      };
+    }
+    if (style.fill && style.fill.type === "pattern" && style.fill.pattern !== "none") {
+      result.fill = {
+        // Conditional formatting fills carry their color in bgColor
+        color: this.formatColor(style.fill.fgColor ?? style.fill.bgColor) ?? "#000000",
+        pattern: style.fill.pattern,
+      };
+    }
+    if (style.border) {
+      result.border = {};
+      for (const edge of ["top", "bottom", "left", "right"] as const) {
+        const border = style.border[edge];
+        if (border?.style) {
+          result.border[edge] = { style: border.style, color: this.formatColor(border.color) };
+        }
+      }
+    }
+    if (style.alignment) {
+      result.alignment = {
+        horizontal: style.alignment.horizontal,
+        vertical: style.alignment.vertical,
+        wrapText: style.alignment.wrapText,
+        indent: style.alignment.indent,
+        textRotation: typeof style.alignment.textRotation === "number" ? style.alignment.textRotation : undefined,
+      };
+    }
+    if (style.numFmt) {
+      result.numFmt = style.numFmt;
+    }
+
+    return result;
+  }
+
+  private toExcelFont(font: NonNullable<StyleSpec["font"]>): Partial<ExcelJS.Font> {
+    const result: Partial<ExcelJS.Font> = {};
+    if (font.name !== undefined) result.name = font.name;
+    if (font.size !== undefined) result.size = font.size;
+    if (font.bold !== undefined) result.bold = font.bold;
+    if (font.italic !== undefined) result.italic = font.italic;
+    if (font.underline !== undefined) result.underline = font.underline;
+    if (font.strike !== undefined) result.strike = font.strike;
+    if (font.color !== undefined) result.color = { argb: this.parseColor(font.color) };
+    return result;
+  }
+
+  // Accepts "#RRGGBB", "RRGGBB" or "AARRGGBB" and returns ExcelJS ARGB
+  private parseColor(color: string): string {
+    const hex = color.replace(/^#/, "").toUpperCase();
+    if (/^[0-9A-F]{6}$/.test(hex)) return `FF${hex}`;
+    if (/^[0-9A-F]{8}$/.test(hex)) return hex;
+    throw new Error(`Invalid color: ${color}. Use a hex value like "#FF0000"`);
+  }
+
+  private formatColor(color: Partial<ExcelJS.Color> | undefined): string | undefined {
+    if (!color) return undefined;
+    if (color.argb) return `#${color.argb.slice(-6)}`;
+    if (color.theme !== undefined) return `theme:${color.theme}`;
+    return undefined;
+  }
+
+  // Conditional Formatting
+
+  addConditionalFormatting(
+    workbookId: string,
+    sheetIdentifier: string | number,
+    range: string,
+    rule: ConditionalFormatSpec
+  ): { range: string; priority: number } {
+    const entry = this.getWorkbookEntry(workbookId);
+    const sheet = this.getSheet(entry.workbook, sheetIdentifier);
+    this.parseRangeReference(range);
+    this.recordChange(entry, `Add conditional formatting to ${sheet.name}!${range}`);
+
+    const existing = this.getConditionalFormattings(sheet);
+    const priority = Math.max(0, ...existing.flatMap(cf => cf.rules.map(r => r.priority ?? 0))) + 1;
+
+    sheet.addConditionalFormatting({ ref: range, rules: [this.toConditionalFormattingRule(rule, priority)] });
+    return { range, priority };
+  }
+
+  listConditionalFormatting(workbookId: string, sheetIdentifier?: string | number): ConditionalFormatInfo[] {
+    const entry = this.getWorkbookEntry(workbookId);
+    const sheets =
+      sheetIdentifier !== undefined ? [this.getSheet(entry.workbook, sheetIdentifier)] : entry.workbook.worksheets;
+
+    const result: ConditionalFormatInfo[] = [];
+    for (const sheet of sheets) {
+      for (const cf of this.getConditionalFormattings(sheet)) {
+        for (const rule of cf.rules) {
+          const info: ConditionalFormatInfo = { sheet: sheet.name, range: cf.ref, priority: rule.priority, type: rule.type };
+          if ("operator" in rule && rule.operator) info.operator = rule.operator;
+          if ("formulae" in rule && rule.formulae) info.formulae = rule.formulae.map(f => String(f));
+          if ("text" in rule && rule.text) info.text = rule.text;
+          if ("iconSet" in rule && rule.iconSet) info.iconSet = rule.iconSet;
+          if (rule.type === "top10") {
+            info.rank = rule.rank;
+            info.percent = Boolean(rule.percent);
+            info.bottom = Boolean(rule.bottom);
+          }
+          if (rule.type === "aboveAverage") info.aboveAverage = rule.aboveAverage !== false;
+          if (rule.type === "colorScale" && rule.color) {
+            info.colors = rule.color.map(color => this.formatColor(color) ?? "");
+          }
+          if (rule.type === "dataBar") {
+            const color = (rule as ExcelJS.DataBarRuleType & { color?: Partial<ExcelJS.Color> }).color;
+            if (color) info.color = this.formatColor(color);
+          }
+          if (rule.style) info.style = this.toStyleSpec(rule.style);
+          result.push(info);
+        }
+      }
+    }
+    return result;
+  }
+
+  removeConditionalFormatting(
+    workbookId: string,
+    sheetIdentifier: string | number,
+    filter: { range?: string; priority?: number }
+  ): { removed: number } {
+    const entry = this.getWorkbookEntry(workbookId);
+    const sheet = this.getSheet(entry.workbook, sheetIdentifier);
+
+    if (filter.range === undefined && filter.priority === undefined) {
+      throw new Error("Specify a range or a rule priority to remove");
+    }
+    this.recordChange(entry, `Remove conditional formatting from ${sheet.name}`);
+
+    let removed = 0;
+    const remaining: ExcelJS.ConditionalFormattingOptions[] = [];
+    for (const cf of this.getConditionalFormattings(sheet)) {
+      const rangeMatches = filter.range === undefined || cf.ref === filter.range;
+      const rules = cf.rules.filter(rule => {
+        const matches = rangeMatches && (filter.priority === undefined || rule.priority === filter.priority);
+        if (matches) removed++;
+        return !matches;
+      });
+      if (rules.length > 0) {
+        remaining.push({ ...cf, rules });
+      }
+    }
+
+    sheet.removeConditionalFormatting(() => false);
+    for (const cf of remaining) {
+      sheet.addConditionalFormatting(cf);
+    }
+    return { removed };
+  }
+
+  private getConditionalFormattings(sheet: ExcelJS.Worksheet): ExcelJS.ConditionalFormattingOptions[] {
+    // Not declared in the ExcelJS typings, but populated on read and used on write
+    return (sheet as unknown as { conditionalFormattings: ExcelJS.ConditionalFormattingOptions[] }).conditionalFormattings;
+  }
+
+  private toConditionalFormattingRule(rule: ConditionalFormatSpec, priority: number): ExcelJS.ConditionalFormattingRule {
+    const style = rule.style ? this.toDifferentialStyle(rule.style) : undefined;
+
+    switch (rule.type) {
+      case "cellIs": {
+        if (!rule.operator) {
+          throw new Error("cellIs rules require an operator");
+        }
+        const count = rule.operator === "between" || rule.operator === "notBetween" ? 2 : 1;
+        if (!rule.values || rule.values.length < count) {
+          throw new Error(`The ${rule.operator} operator requires ${count} value(s)`);
+        }
+        return {
+          type: "cellIs",
+          priority,
+          // ExcelJS only types a subset of the operators Excel accepts
+          operator: rule.operator as ExcelJS.CellIsOperators,
+          formulae: rule.values.slice(0, count).map(value => this.toConditionalFormula(value)),
+          style,
+        };
+      }
+      case "expression":
+        if (!rule.formula) {
+          throw new Error("expression rules require a formula");
+        }
+        return { type: "expression", priority, formulae: [rule.formula.replace(/^=/, "")], style };
+      case "top10":
+        return {
+          type: "top10",
+          priority,
+          rank: rule.rank ?? 10,
+          percent: rule.percent ?? false,
+          bottom: rule.bottom ?? false,
+          style,
+        };
+      case "aboveAverage":
+        return { type: "aboveAverage", priority, aboveAverage: rule.aboveAverage ?? true, style };
+      case "containsText":
+        if (!rule.text) {
+          throw new Error("containsText rules require text");
+        }
+        return { type: "containsText", priority, operator: "containsText", text: rule.text, style };
+      case "colorScale": {
+        const colors = rule.colors ?? ["#F8696B", "#FFEB84", "#63BE7B"];
+        if (colors.length !== 2 && colors.length !== 3) {
+          throw new Error("Color scales take 2 or 3 colors");
+        }
+        const cfvo: ExcelJS.Cvfo[] =
+          colors.length === 2
+            ? [{ type: "min" }, { type: "max" }]
+            : [{ type: "min" }, { type: "percentile", value: 50 }, { type: "max" }];
+        return { type: "colorScale", priority, cfvo, color: colors.map(color => ({ argb: this.parseColor(color) })) };
+      }
+      case "dataBar":
+        return {
+          type: "dataBar",
+          priority,
+          cfvo: [{ type: "min" }, { type: "max" }],
+          gradient: true,
+          showValue: true,
+          color: { argb: this.parseColor(rule.color ?? "#638EC6") },
+        } as ExcelJS.DataBarRuleType;
+      case "iconSet": {
+        const iconSet = rule.iconSet ?? "3TrafficLights1";
+        const icons = Number(iconSet.charAt(0)) || 3;
+        const cfvo: ExcelJS.Cvfo[] = [];
+        for (let i = 0; i < icons; i++) {
+          cfvo.push({ type: "percent", value: Math.round((i * 100) / icons) });
+        }
+        return { type: "iconSet", priority, iconSet, showValue: true, cfvo };
+      }
+      default:
+        throw new Error(`Unsupported conditional formatting type: ${(rule as { type: string }).type}`);
+    }
+  }
+
+  // Numbers pass through, '=' marks a formula, anything else is a text literal
+  private toConditionalFormula(value: string | number): string {
+    if (typeof value === "number") return String(value);
+    if (value.startsWith("=")) return value.substring(1);
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+
+  private toDifferentialStyle(style: StyleSpec): Partial<ExcelJS.Style> {
+    const result: Partial<ExcelJS.Style> = {};
+    if (style.font) result.font = this.toExcelFont(style.font);
+    if (style.fill) {
+      const argb = this.parseColor(style.fill.color);
+      result.fill = { type: "pattern", pattern: style.fill.pattern ?? "solid", fgColor: { argb }, bgColor: { argb } };
+    }
+    if (style.border) {
+      const border: Partial<ExcelJS.Borders> = {};
+      for (const edge of ["top", "bottom", "left", "right"] as const) {
+        const spec = style.border[edge] ?? style.border.all ?? style.border.outline;
+        if (spec) border[edge] = { style: spec.style, color: { argb: this.parseColor(spec.color ?? "000000") } };
+      }
+      result.border = border;
+    }
+    if (style.numFmt) result.numFmt = NUMBER_FORMATS[style.numFmt.toLowerCase()] ?? style.numFmt;
+    return result;
+  }
+
+  // Data Validation
+
+  setDataValidation(
+    workbookId: string,
+    sheetIdentifier: string | number,
+    range: string,
+    spec: DataValidationSpec
+  ): { range: string; cellsUpdated: number } {
+    const entry = this.getWorkbookEntry(workbookId);
+    const sheet = this.getSheet(entry.workbook, sheetIdentifier);
+    const { start, end } = this.parseRangeReference(range);
+
+    const validation: ExcelJS.DataValidation = {
+      type: spec.type,
+      formulae: this.toValidationFormulae(spec, entry.workbook.properties.date1904),
+      allowBlank: spec.allowBlank ?? true,
+      showErrorMessage: true,
+    };
+    if (spec.type !== "list" && spec.type !== "custom") {
+      validation.operator = spec.operator ?? "between";
+    }
+    if (spec.errorMessage || spec.errorTitle) {
+      validation.errorStyle = spec.errorStyle ?? "stop";
+      validation.errorTitle = spec.errorTitle;
+      validation.error = spec.errorMessage;
+    }
+    if (spec.prompt || spec.promptTitle) {
+      validation.showInputMessage = true;
+      validation.promptTitle = spec.promptTitle;
+      validation.prompt = spec.prompt;
+    }
+
+    this.recordChange(entry, `Set data validation on ${sheet.name}!${range}`);
+    let cellsUpdated = 0;
+    for (let row = start.row; row <= end.row; row++) {
+      for (let col = start.col; col <= end.col; col++) {
+        // Every cell shares one object so ExcelJS writes the range as a single rule
+        sheet.getCell(row, col).dataValidation = validation;
+        cellsUpdated++;
+      }
+    }
+
+    return { range, cellsUpdated };
+  }
+
+  listDataValidations(workbookId: string, sheetIdentifier: string | number): DataValidationInfo[] {
+    const entry = this.getWorkbookEntry(workbookId);
+    const sheet = this.getSheet(entry.workbook, sheetIdentifier);
+
+    return this.getDataValidationBlocks(sheet).map(({ validation, ranges }) => ({
+      ranges: ranges.map(block => this.formatRangeReference(block.start, block.end)),
+      type: validation.type,
+      operator: validation.operator,
+      formulae: (validation.formulae ?? []).map(f => (f instanceof Date ? f.toISOString() : String(f))),
+      allowBlank: validation.allowBlank !== false,
+      errorStyle: validation.errorStyle,
+      errorTitle: validation.errorTitle,
+      errorMessage: validation.error,
+      promptTitle: validation.promptTitle,
+      prompt: validation.prompt,
+    }));
+  }
+
+  clearDataValidation(workbookId: string, sheetIdentifier: string | number, range: string): { cleared: number } {
+    const entry = this.getWorkbookEntry(workbookId);
+    const sheet = this.getSheet(entry.workbook, sheetIdentifier);
+    const { start, end } = this.parseRangeReference(range);
+    this.recordChange(entry, `Clear data validation from ${sheet.name}!${range}`);
+    const model = this.getDataValidationModel(sheet);
+
+    let cleared = 0;
+    for (let row = start.row; row <= end.row; row++) {
+      for (let col = start.col; col <= end.col; col++) {
+        const address = `${this.columnIndexToLetter(col)}${row}`;
+        if (model[address]) {
+          delete model[address];
+          cleared++;
+        }
+      }
+    }
+    return { cleared };
+  }
+
+  /**
+   * Check existing cells against their validation rules using calculated
+   * values, and report the ones Excel would reject.
+   */
+  checkDataValidation(
+    workbookId: string,
+    sheetIdentifier: string | number,
+    range?: string
+  ): { checked: number; violations: DataValidationViolation[] } {
+    const entry = this.getWorkbookEntry(workbookId);
+    const sheet = this.getSheet(entry.workbook, sheetIdentifier);
+    const bounds = range ? this.parseRangeReference(range) : undefined;
+    const hfSheetId = entry.hf.getSheetId(sheet.name);
+
+    let checked = 0;
+    const violations: DataValidationViolation[] = [];
+
+    for (const { validation, ranges } of this.getDataValidationBlocks(sheet)) {
+      // Relative references in a custom formula are written for the rule's top-left cell, whichever block a cell is in
+      const origin = {
+        row: Math.min(...ranges.map(block => block.start.row)),
+        col: Math.min(...ranges.map(block => block.start.col)),
+      };
+      for (const block of ranges) {
+        for (let row = block.start.row; row <= block.end.row; row++) {
+          for (let col = block.start.col; col <= block.end.col; col++) {
+            if (bounds && (row < bounds.start.row || row > bounds.end.row || col < bounds.start.col || col > bounds.end.col)) {
+              continue;
+            }
+            checked++;
+
+            const offset = { row: row - origin.row, col: col - origin.col };
+            const reason = this.validateCell(entry, sheet, hfSheetId, row, col, validation, offset);
+            if (reason) {
+              violations.push({
+                cell: `${this.columnIndexToLetter(col)}${row}`,
+                value:
+                  hfSheetId !== undefined
+                    ? entry.hf.getCellValue({ sheet: hfSheetId, row: row - 1, col: col - 1 })
+                    : sheet.getCell(row, col).value,
+                type: validation.type,
+                reason,
+              });
+            }
+          }
+        }
+      }
+    }
+
+    return { checked, violations };
+  }
+
+  private toValidationFormulae(spec: DataValidationSpec, date1904: boolean): string[] {
+    switch (spec.type) {
+      case "list":
+        if (spec.source) {
+          return [spec.source.replace(/^=/, "")];
+        }
+        if (!spec.values || spec.values.length === 0) {
+          throw new Error("List validation requires values or a source range");
+        }
+        return [`"${spec.values.map(v => String(v).replace(/"/g, '""')).join(",")}"`];
+      case "custom":
+        if (!spec.formula) {
+          throw new Error("Custom validation requires a formula");
+        }
+        return [spec.formula.replace(/^=/, "")];
+      default: {
+        const operator = spec.operator ?? "between";
+        const count = operator === "between" || operator === "notBetween" ? 2 : 1;
+        if (!spec.values || spec.values.length < count) {
+          throw new Error(`The ${operator} operator requires ${count} value(s)`);
+        }
+        return spec.values.slice(0, count).map(value => {
+          if (typeof value === "number") return String(value);
+          if (value.startsWith("=")) return value.substring(1);
+          if (spec.type === "date") {
+            const date = new Date(value);
+            if (isNaN(date.getTime())) {
+              throw new Error(`Invalid date: ${value}`);
+            }
+            return String(this.dateToSerial(date, date1904));
+          }
+          return value;
+        });
+      }
+    }
+  }
+
+  private validateCell(
+    entry: WorkbookEntry,
+    sheet: ExcelJS.Worksheet,
+    hfSheetId: number | undefined,
+    row: number,
+    col: number,
+    validation: ExcelJS.DataValidation,
+    offset: { row: number; col: number }
+  ): string | null {
+    const cell = sheet.getCell(row, col);
+    let value: unknown =
+      hfSheetId !== undefined ? entry.hf.getCellValue({ sheet: hfSheetId, row: row - 1, col: col - 1 }) : cell.value;
+    if (cell.value instanceof Date) {
+      value = this.dateToSerial(cell.value, entry.workbook.properties.date1904);
+    }
+
+    if (value === null || value === undefined || value === "") {
+      return validation.allowBlank === false ? "Blank values are not allowed" : null;
+    }
+    if (value instanceof DetailedCellError) {
+      return `Cell evaluates to an error (${value.value})`;
+    }
+
+    const evaluate = (formula: unknown): unknown => {
+      if (formula instanceof Date) return this.dateToSerial(formula, entry.workbook.properties.date1904);
+      if (typeof formula === "number") return formula;
+      const text = String(formula);
+      if (text.trim() !== "" && !isNaN(Number(text))) return Number(text);
+      if (hfSheetId === undefined) return null;
+      return entry.hf.calculateFormula(`=${this.shiftFormula(text, offset.row, offset.col)}`, hfSheetId);
+    };
+
+    const formulae = validation.formulae ?? [];
+    switch (validation.type) {
+      case "list": {
+        const items = this.getValidationListItems(evaluate, formulae[0]);
+        const text = String(value).toLowerCase();
+        return items.some(item => String(item).toLowerCase() === text) ? null : "Value is not in the list";
+      }
+      case "custom": {
+        const result = evaluate(formulae[0]);
+        return result === true || (typeof result === "number" && result !== 0) ? null : "Custom formula is not satisfied";
+      }
+      case "textLength":
+        return this.compareValidationBounds(String(value).length, validation, formulae.map(evaluate), "Text length");
+      default: {
+        if (typeof value !== "number") {
+          return `Value must be a ${validation.type === "date" ? "date" : "number"}`;
+        }
+        if (validation.type === "whole" && !Number.isInteger(value)) {
+          return "Value must be a whole number";
+        }
+        return this.compareValidationBounds(value, validation, formulae.map(evaluate), "Value");
+      }
+    }
+  }
+
+  private getValidationListItems(evaluate: (formula: unknown) => unknown, formula: unknown): unknown[] {
+    const text = String(formula ?? "");
+    const literal = text.match(/^"(.*)"$/s);
+    if (literal) {
+      return literal[1].replace(/""/g, '"').split(",").map(item => item.trim());
+    }
+    const result = evaluate(text);
+    return Array.isArray(result) ? result.flat() : [result];
+  }
+
+  private compareValidationBounds(value: number, validation: ExcelJS.DataValidation, bounds: unknown[], label: string): string | null {
+    const [low, high] = bounds.map(bound => (typeof bound === "number" ? bound : Number(bound)));
+    switch (validation.operator ?? "between") {
+      case "between":
+        return value >= low && value <= high ? null : `${label} must be between ${low} and ${high}`;
+      case "notBetween":
+        return value < low || value > high ? null : `${label} must not be between ${low} and ${high}`;
+      case "equal":
+        return value === low ? null : `${label} must equal ${low}`;
+      case "notEqual":
+        return value !== low ? null : `${label} must not equal ${low}`;
+      case "greaterThan":
+        return value > low ? null : `${label} must be greater than ${low}`;
+      case "lessThan":
+        return value < low ? null : `${label} must be less than ${low}`;
+      case "greaterThanOrEqual":
+        return value >= low ? null : `${label} must be at least ${low}`;
+      case "lessThanOrEqual":
+        return value <= low ? null : `${label} must be at most ${low}`;
+      default:
+        return null;
+    }
+  }
+
+  private getDataValidationModel(sheet: ExcelJS.Worksheet): Record<string, ExcelJS.DataValidation | undefined> {
+    // Not declared in the ExcelJS typings; keyed by cell address
+    return (sheet as unknown as { dataValidations: { model: Record<string, ExcelJS.DataValidation | undefined> } })
+      .dataValidations.model;
+  }
+
+  /**
+   * Group cells with identical rules into rectangular blocks, the same way
+   * ExcelJS squeezes them together when writing the file.
+   */
+  private getDataValidationBlocks(
+    sheet: ExcelJS.Worksheet
+  ): Array<{ validation: ExcelJS.DataValidation; ranges: Array<{ start: { row: number; col: number }; end: { row: number; col: number } }> }> {
+    const model = this.getDataValidationModel(sheet);
+    const keyOf = (validation: ExcelJS.DataValidation) => JSON.stringify(validation);
+
+    const cells = new Map<string, { row: number; col: number; key: string }>();
+    for (const [address, validation] of Object.entries(model)) {
+      if (!validation) continue;
+      const ref = this.parseCellReference(address);
+      cells.set(`${ref.row}:${ref.col}`, { ...ref, key: keyOf(validation) });
+    }
+
+    const groups = new Map<
+      string,
+      { validation: ExcelJS.DataValidation; ranges: Array<{ start: { row: number; col: number }; end: { row: number; col: number } }> }
+    >();
+    const marked = new Set<string>();
+    const sorted = [...cells.values()].sort((a, b) => a.row - b.row || a.col - b.col);
+
+    for (const cell of sorted) {
+      if (marked.has(`${cell.row}:${cell.col}`)) continue;
+      const matches = (row: number, col: number) =>
+        !marked.has(`${row}:${col}`) && cells.get(`${row}:${col}`)?.key === cell.key;
+
+      let width = 1;
+      while (matches(cell.row, cell.col + width)) width++;
+      let height = 1;
+      while ([...Array(width).keys()].every(i => matches(cell.row + height, cell.col + i))) height++;
+
+      for (let r = 0; r < height; r++) {
+        for (let c = 0; c < width; c++) marked.add(`${cell.row + r}:${cell.col + c}`);
+      }
+
+      if (!groups.has(cell.key)) {
+        groups.set(cell.key, { validation: model[`${this.columnIndexToLetter(cell.col)}${cell.row}`]!, ranges: [] });
+      }
+      groups.get(cell.key)!.ranges.push({
+        start: { row: cell.row, col: cell.col },
+        end: { row: cell.row + height - 1, col: cell.col + width - 1 },
+      });
+    }
+
+    return [...groups.values()];
+  }
+
+  // Formula Support
+
+  getFormula(workbookId: string, sheetIdentifier: string | number, cellAddress: string): string | null {
+    const entry = this.getWorkbookEntry(workbookId);
+    const sheet = this.getSheet(entry.workbook, sheetIdentifier);
+    const cell = sheet.getCell(cellAddress);
+
+    return cell.formula ? `=${cell.formula}` : null;
+  }
+
+  /**
+   * Rebuild HyperFormula from the ExcelJS cells and names and evaluate every
+   * formula from scratch. Reports the cells whose calculated value changed and
+   * the cells where the engine's content had drifted from the ExcelJS model.
+   * With compareCached, formula results are also checked against the values
+   * cached in the file, as last calculated by Excel.
+   */
+  recalculate(workbookId: string, options: { compareCached?: boolean; limit?: number } = {}): RecalculationResult {
+    const entry = this.getWorkbookEntry(workbookId);
+    const limit = options.limit ?? 200;
+    const previous = entry.hf;
+    const hf = this.buildHyperFormula(entry.workbook, entry.names);
+    const result: RecalculationResult = {
+      sheetsRecalculated: entry.workbook.worksheets.length,
+      formulasCalculated: 0,
+      changed: [],
+      mismatches: [],
+    };
+    const report = <T>(list: T[], item: T) => {
+      if (list.length < limit) {
+        list.push(item);
+      } else {
+        result.truncated = true;
+      }
+    };
+
+    for (const sheet of entry.workbook.worksheets) {
+      const sheetId = hf.getSheetId(sheet.name)!;
+      const previousId = previous.getSheetId(sheet.name);
+      const contents = hf.getSheetSerialized(sheetId);
+      const values = hf.getSheetValues(sheetId);
+      const previousContents = previousId !== undefined ? previous.getSheetSerialized(previousId) : [];
+      const previousValues = previousId !== undefined ? previous.getSheetValues(previousId) : [];
+
+      for (let row = 0; row < Math.max(contents.length, previousContents.length); row++) {
+        const width = Math.max(contents[row]?.length ?? 0, previousContents[row]?.length ?? 0);
+        for (let col = 0; col < width; col++) {
+          const cell = `${this.columnIndexToLetter(col + 1)}${row + 1}`;
+          const content = contents[row]?.[col] ?? null;
+          const previousContent = previousContents[row]?.[col] ?? null;
+          const value = this.toTraceValue(values[row]?.[col] ?? null);
+          const previousValue = this.toTraceValue(previousValues[row]?.[col] ?? null);
+
+          if (hf.doesCellHaveFormula({ sheet: sheetId, row, col })) result.formulasCalculated++;
+          if (JSON.stringify(content) !== JSON.stringify(previousContent)) {
+            report(result.mismatches, { sheet: sheet.name, cell, workbook: content, engine: previousContent });
+          }
+          if (JSON.stringify(value) !== JSON.stringify(previousValue)) {
+            report(result.changed, { sheet: sheet.name, cell, before: previousValue, after: value });
+          }
+        }
+      }
+
+      if (options.compareCached) {
+        result.cachedDifferences ??= [];
+        sheet.eachRow(row => {
+          row.eachCell(cell => {
+            const cached = this.toCachedValue(cell.result, entry.workbook.properties.date1904);
+            if (!cell.formula || cached === undefined) return;
+
+            const { row: rowNumber, col } = cell.fullAddress;
+            const calculated = this.toTraceValue(hf.getCellValue({ sheet: sheetId, row: rowNumber - 1, col: col - 1 }));
+            const same =
+              typeof cached === "number" && typeof calculated === "number"
+                ? Math.abs(cached - calculated) <= 1e-9 * Math.max(1, Math.abs(cached), Math.abs(calculated))
+                : cached === calculated || (cached === "" && calculated === null);
+            if (!same) {
+              report(result.cachedDifferences!, { sheet: sheet.name, cell: cell.address, formula: `=${cell.formula}`, cached, calculated });
+            }
+          });
+        });
+      }
+    }
+
+    previous.destroy();
+    entry.hf = hf;
+    return result;
+  }
+
+  // A cached formula result as HyperFormula would report it; undefined when the file has none
+  private toCachedValue(result: unknown, date1904: boolean): unknown {
+    if (result instanceof Date) return this.dateToSerial(result, date1904);
+    if (result && typeof result === "object" && "error" in result) return (result as ExcelJS.CellErrorValue).error;
+    return result;
+  }
+
+  // Formula Tracing
+
+  /**
+   * Trace the cells, ranges and names a cell's formula reads, and what those
+   * read in turn, down to `depth` levels.
+   */
+  tracePrecedents(workbookId: string, sheetIdentifier: string | number, cellAddress: string, depth: number = 3): TraceNode {
+    return this.traceCell(workbookId, sheetIdentifier, cellAddress, depth, "precedents");
+  }
+
+  // Trace the formulas that read a cell, and the formulas that read those
+  traceDependents(workbookId: string, sheetIdentifier: string | number, cellAddress: string, depth: number = 3): TraceNode {
+    return this.traceCell(workbookId, sheetIdentifier, cellAddress, depth, "dependents");
+  }
+
+  /**
+   * Summarize how a sheet's calculations fit together: the constants formulas
+   * depend on (on any sheet), and the formulas whose results nothing uses.
+   */
+  getSheetStructure(workbookId: string, sheetIdentifier: string | number): SheetStructure {
+    const entry = this.getWorkbookEntry(workbookId);
+    const sheet = this.getSheet(entry.workbook, sheetIdentifier);
+    const hfSheetId = entry.hf.getSheetId(sheet.name);
+    const structure: SheetStructure = { sheet: sheet.name, inputs: [], outputs: [], calculations: 0 };
+    if (hfSheetId === undefined) return structure;
+
+    sheet.eachRow(row => {
+      row.eachCell(cell => {
+        const { row: rowNumber, col } = cell.fullAddress;
+        const address = { sheet: hfSheetId, row: rowNumber - 1, col: col - 1 };
+        const dependents = entry.hf.getCellDependents(address);
+        const value = this.toTraceValue(entry.hf.getCellValue(address));
+
+        if (cell.formula) {
+          if (dependents.length === 0) {
+            structure.outputs.push({ cell: cell.address, formula: `=${cell.formula}`, value });
+          } else {
+            structure.calculations++;
+          }
+        } else if (dependents.length > 0 && cell.type !== ExcelJS.ValueType.Merge) {
+          structure.inputs.push({ cell: cell.address, value, usedBy: this.countDependentFormulas(entry, dependents) });
+        }
+      });
+    });
+    return structure;
+  }
+
+  private traceCell(
+    workbookId: string,
+    sheetIdentifier: string | number,
+    cellAddress: string,
+    depth: number,
+    direction: "precedents" | "dependents"
+  ): TraceNode {
+    const entry = this.getWorkbookEntry(workbookId);
+    const sheet = this.getSheet(entry.workbook, sheetIdentifier);
+    const hfSheetId = entry.hf.getSheetId(sheet.name);
+    if (hfSheetId === undefined) {
+      throw new Error(`Sheet "${sheet.name}" is not loaded in the formula engine`);
+    }
+    if (!Number.isInteger(depth) || depth < 1) {
+      throw new Error("Depth must be a positive whole number");
+    }
+
+    const ref = this.parseCellReference(cellAddress);
+    return this.buildTraceNode(entry, { sheet: hfSheetId, row: ref.row - 1, col: ref.col - 1 }, depth, direction, new Set());
+  }
+
+  private buildTraceNode(
+    entry: WorkbookEntry,
+    target: SimpleCellAddress | SimpleCellRange,
+    depth: number,
+    direction: "precedents" | "dependents",
+    expanded: Set<string>
+  ): TraceNode {
+    const node = this.describeTraceTarget(entry, target);
+    const key = JSON.stringify(target);
+    if (expanded.has(key)) {
+      return { ...node, repeated: true };
+    }
+
+    let links: Array<SimpleCellAddress | SimpleCellRange>;
+    try {
+      links = direction === "precedents" ? entry.hf.getCellPrecedents(target) : entry.hf.getCellDependents(target);
+    } catch {
+      // Named expressions that failed to parse have no place in the dependency graph
+      links = [];
+    }
+    // A range's precedents are its own cells; empty ones add nothing to the picture
+    if (direction === "precedents" && "start" in target) {
+      links = links.filter(link => "start" in link || link.sheet < 0 || entry.hf.getCellFormula(link) || entry.hf.getCellValue(link) !== null);
+    }
+    if (links.length === 0) return node;
+    if (depth === 0) return { ...node, truncated: true };
+
+    expanded.add(key);
+    node.children = links.slice(0, MAX_TRACE_CHILDREN).map(link => this.buildTraceNode(entry, link, depth - 1, direction, expanded));
+    if (links.length > MAX_TRACE_CHILDREN) node.truncated = true;
+    return node;
+  }
+
+  private describeTraceTarget(entry: WorkbookEntry, target: SimpleCellAddress | SimpleCellRange): TraceNode {
+    if ("start" in target) {
+      const sheet = entry.hf.getSheetName(target.start.sheet);
+      const range = this.formatRangeReference(
+        { row: target.start.row + 1, col: target.start.col + 1 },
+        { row: target.end.row + 1, col: target.end.col + 1 }
+      );
+      return { sheet, range };
+    }
+
+    // HyperFormula places named expressions on sheet -1
+    if (target.sheet < 0) {
+      const name = this.getNamedExpressionAt(entry, target);
+      if (!name) return { name: "(unknown name)" };
+      const scopeId = this.getNameScopeId(entry, name.scope);
+      return {
+        name: name.name,
+        sheet: name.scope,
+        formula: `=${name.refersTo}`,
+        value: this.toTraceValue(entry.hf.getNamedExpressionValue(name.name, scopeId)),
+      };
+    }
+
+    const formula = entry.hf.getCellFormula(target);
+    return {
+      sheet: entry.hf.getSheetName(target.sheet),
+      cell: `${this.columnIndexToLetter(target.col + 1)}${target.row + 1}`,
+      formula,
+      value: this.toTraceValue(entry.hf.getCellValue(target)),
+    };
+  }
+
+  // HyperFormula has no public lookup from a named expression's address back to its name, so match the formula it holds there
+  private getNamedExpressionAt(entry: WorkbookEntry, address: SimpleCellAddress): DefinedNameEntry | undefined {
+    const formula = entry.hf.getCellFormula(address);
+    if (formula === undefined) return undefined;
+
+    return entry.names.find((name) => {
+      const expression = entry.hf.getNamedExpressionFormula(name.name, this.getNameScopeId(entry, name.scope));
+      return expression !== undefined && entry.hf.normalizeFormula(expression) === formula;
+    });
+  }
+
+  // Formulas reading a cell, directly or through the ranges and names that contain it
+  private countDependentFormulas(entry: WorkbookEntry, links: Array<SimpleCellAddress | SimpleCellRange>): number {
+    const formulas = new Set<string>();
+    const pending = [...links];
+    const seen = new Set<string>();
+    while (pending.length > 0) {
+      const link = pending.pop()!;
+      const key = JSON.stringify(link);
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      if ("start" in link || link.sheet < 0) {
+        pending.push(...entry.hf.getCellDependents(link));
+      } else {
+        formulas.add(key);
+      }
+    }
+    return formulas.size;
+  }
+
+  private toTraceValue(value: unknown): unknown {
+    return value instanceof DetailedCellError ? value.value : value;
+  }
+
+  // Formula Audit
+
+  /**
+   * Check every formula for error results, functions HyperFormula can't
+   * evaluate, breaks in a row or column of copied formulas, and numbers typed
+   * into the formula rather than referenced (0 and 1 are not reported).
+   */
+  auditFormulas(workbookId: string, options: { sheet?: string | number; limit?: number } = {}): FormulaAudit {
+    const entry = this.getWorkbookEntry(workbookId);
+    const sheets = options.sheet !== undefined ? [this.getSheet(entry.workbook, options.sheet)] : entry.workbook.worksheets;
+    const limit = options.limit ?? 200;
+    const supported = new Set(entry.hf.getRegisteredFunctionNames().map(name => name.toUpperCase()));
+    const audit: FormulaAudit = {
+      formulasChecked: 0,
+      summary: { errors: 0, unsupportedFunctions: 0, inconsistentFormulas: 0, hardcodedNumbers: 0 },
+      errors: [],
+      unsupportedFunctions: [],
+      inconsistentFormulas: [],
+      hardcodedNumbers: [],
+    };
+    const report = <K extends keyof FormulaAudit["summary"]>(kind: K, issue: FormulaAudit[K][number]) => {
+      audit.summary[kind]++;
+      if (audit[kind].length < limit) {
+        (audit[kind] as Array<typeof issue>).push(issue);
+      } else {
+        audit.truncated = true;
+      }
+    };
+
+    for (const sheet of sheets) {
+      const hfSheetId = entry.hf.getSheetId(sheet.name);
+      const formulaAt = (row: number, col: number): string | undefined =>
+        row < 1 || col < 1 ? undefined : sheet.findCell(row, col)?.formula || undefined;
+
+      sheet.eachRow(row => {
+        row.eachCell(cell => {
+          if (!cell.formula) return;
+          audit.formulasChecked++;
+
+          const { row: rowNumber, col } = cell.fullAddress;
+          const formula = cell.formula;
+          const issue = { sheet: sheet.name, cell: cell.address, formula: `=${formula}` };
+          const value = hfSheetId !== undefined ? entry.hf.getCellValue({ sheet: hfSheetId, row: rowNumber - 1, col: col - 1 }) : null;
+
+          const unsupported = this.getFormulaFunctions(formula).filter(name => !supported.has(name));
+          if (unsupported.length > 0) {
+            report("unsupportedFunctions", { ...issue, functions: unsupported, value: this.toTraceValue(value) });
+          } else if (value instanceof DetailedCellError) {
+            report("errors", { ...issue, error: value.value, type: value.type, message: value.message });
+          }
+
+          // A formula between two neighbors that agree with each other should agree with them too
+          for (const [direction, rowStep, colStep] of [["column", 1, 0], ["row", 0, 1]] as const) {
+            const before = formulaAt(rowNumber - rowStep, col - colStep);
+            const after = formulaAt(rowNumber + rowStep, col + colStep);
+            if (!before || !after || this.shiftFormula(before, 2 * rowStep, 2 * colStep) !== after) continue;
+
+            const expected = this.shiftFormula(before, rowStep, colStep);
+            if (expected !== formula) {
+              report("inconsistentFormulas", { ...issue, direction, expected: `=${expected}` });
+              break;
+            }
+          }
+
+          const numbers = this.getFormulaNumbers(formula).filter(number => Number(number.replace("%", "")) !== 0 && number !== "1");
+          if (numbers.length > 0) {
+            report("hardcodedNumbers", { ...issue, numbers });
+          }
+        });
+      });
+    }
+    return audit;
+  }
+
+  // Upper-cased function names called in a formula, without Excel's _xlfn. style prefixes
+  private getFormulaFunctions(formula: string): string[] {
+    const names = new Set<string>();
+    formula.split(/("(?:[^"]|"")*"|'(?:[^']|'')*')/).forEach((part, index) => {
+      if (index % 2 === 1) return;
+      for (const match of part.matchAll(/(?<![A-Za-z0-9_.\\])([A-Za-z_][A-Za-z0-9_.]*)\s*\(/g)) {
+        names.add(match[1].replace(/^_xl(?:fn|ws|udf)\./i, "").toUpperCase());
+      }
+    });
+    return [...names];
+  }
+
+  // Numeric literals, leaving out cell and row references and anything quoted or in brackets
+  private getFormulaNumbers(formula: string): string[] {
+    const numbers: string[] = [];
+    formula.split(/("(?:[^"]|"")*"|'(?:[^']|'')*')/).forEach((part, index) => {
+      if (index % 2 === 1) return;
+      const unbracketed = part.replace(/\[(?:[^\]']|'.)*\]/g, "[]");
+      for (const match of unbracketed.matchAll(/(?<![A-Za-z0-9_.$:\\])(\d+(?:\.\d+)?(?:[eE][+-]?\d+)?%?|\.\d+%?)(?![A-Za-z0-9_.:(])/g)) {
+        numbers.push(match[1]);
+      }
+    });
+    return numbers;
+  }
+
+  // Named Ranges
+
+  defineName(
+    workbookId: string,
+    name: string,
+    refersTo: string,
+    scope?: string | number
+  ): { name: string; scope?: string; refersTo: string } {
+    const entry = this.getWorkbookEntry(workbookId);
+    const scopeName = scope !== undefined ? this.getSheet(entry.workbook, scope).name : undefined;
+    const formula = refersTo.replace(/^=/, "");
+
+    if (this.findName(entry, name, scopeName) || this.findTable(entry.workbook, name)) {
+      throw new Error(`Name "${name}" already exists${scopeName ? ` on sheet "${scopeName}"` : ""}`);
+    }
+    this.validateName(name);
+    this.recordChange(entry, `Define name "${name}"`);
+
+    entry.hf.addNamedExpression(name, `=${formula}`, this.getNameScopeId(entry, scopeName));
+    if (scopeName === undefined) {
+      this.addExcelJsName(entry, name, formula);
+    }
+
+    const definedName: DefinedNameEntry = { name, scope: scopeName, refersTo: formula };
+    entry.names.push(definedName);
+    return { name, scope: scopeName, refersTo: formula };
+  }
+
+  updateName(
+    workbookId: string,
+    name: string,
+    refersTo: string,
+    scope?: string | number
+  ): { name: string; scope?: string; refersTo: string } {
+    const entry = this.getWorkbookEntry(workbookId);
+    const scopeName = scope !== undefined ? this.getSheet(entry.workbook, scope).name : undefined;
+    const formula = refersTo.replace(/^=/, "");
+
+    const definedName = this.findName(entry, name, scopeName);
+    if (!definedName) {
+      throw new Error(`Name "${name}" not found${scopeName ? ` on sheet "${scopeName}"` : ""}`);
+    }
+    this.recordChange(entry, `Update name "${name}"`);
+
+    const scopeId = this.getNameScopeId(entry, scopeName);
+    if (entry.hf.getNamedExpression(definedName.name, scopeId)) {
+      entry.hf.changeNamedExpression(definedName.name, `=${formula}`, scopeId);
+    } else {
+      entry.hf.addNamedExpression(definedName.name, `=${formula}`, scopeId);
+    }
+    if (scopeName === undefined) {
+      this.removeExcelJsName(entry, definedName.name);
+      this.addExcelJsName(entry, definedName.name, formula);
+    }
+
+    definedName.refersTo = formula;
+    return { name: definedName.name, scope: scopeName, refersTo: formula };
+  }
+
+  deleteName(workbookId: string, name: string, scope?: string | number): void {
+    const entry = this.getWorkbookEntry(workbookId);
+    const scopeName = scope !== undefined ? this.getSheet(entry.workbook, scope).name : undefined;
+
+    const definedName = this.findName(entry, name, scopeName);
+    if (!definedName) {
+      throw new Error(`Name "${name}" not found${scopeName ? ` on sheet "${scopeName}"` : ""}`);
+    }
+    this.recordChange(entry, `Delete name "${name}"`);
+
+    const scopeId = this.getNameScopeId(entry, scopeName);
+    if (entry.hf.getNamedExpression(definedName.name, scopeId)) {
+      entry.hf.removeNamedExpression(definedName.name, scopeId);
+    }
+    if (scopeName === undefined) {
+      this.removeExcelJsName(entry, definedName.name);
+    }
+
+    entry.names = entry.names.filter(n => n !== definedName);
+  }
+
+  listNames(workbookId: string): Array<{ name: string; scope?: string; refersTo: string; value?: unknown }> {
+    const entry = this.getWorkbookEntry(workbookId);
+
+    return entry.names.map(definedName => {
+      const scopeId = this.getNameScopeId(entry, definedName.scope);
+      const value = entry.hf.getNamedExpression(definedName.name, scopeId)
+        ? entry.hf.getNamedExpressionValue(definedName.name, scopeId)
+        : undefined;
+
+      return {
+        name: definedName.name,
+        scope: definedName.scope,
+        refersTo: definedName.refersTo,
+        // HyperFormula can't evaluate a bare range on its own; only report single values
+        value: Array.isArray(value) || this.isRangeReference(definedName.refersTo) ? undefined : value,
+      };
+    });
+  }
+
+  private findName(entry: WorkbookEntry, name: string, scope: string | undefined): DefinedNameEntry | undefined {
+    // Excel names are case-insensitive
+    return entry.names.find(n => n.name.toLowerCase() === name.toLowerCase() && n.scope === scope);
+  }
+
+  private isRangeReference(formula: string): boolean {
+    return /^(?:(?:'(?:[^']|'')+'|[^'!]+)!)?\$?[A-Z]+\$?\d+(?::\$?[A-Z]+\$?\d+)?$/i.test(formula);
+  }
+
+  private validateName(name: string): void {
+    if (!/^[A-Za-z_\\][A-Za-z0-9_.\\]*$/.test(name) || /^[A-Za-z]{1,3}\d+$/.test(name) || /^[RrCc]$/.test(name)) {
+      throw new Error(`Invalid name "${name}". Names must start with a letter or underscore and must not look like a cell reference`);
+    }
+  }
+
+  private getNameScopeId(entry: WorkbookEntry, scope: string | undefined): number | undefined {
+    if (scope === undefined) return undefined;
+    const scopeId = entry.hf.getSheetId(scope);
+    if (scopeId === undefined) {
+      throw new Error(`Sheet "${scope}" not found`);
+    }
+    return scopeId;
+  }
+
+  // ExcelJS can only model names that point at absolute cell ranges
+  private addExcelJsName(entry: WorkbookEntry, name: string, formula: string): void {
+    if (/^(?:'(?:[^']|'')+'|[^'!]+)!\$[A-Z]+\$\d+(?::\$[A-Z]+\$\d+)?$/i.test(formula)) {
+      entry.workbook.definedNames.add(formula, name);
+    }
+  }
+
+  private removeExcelJsName(entry: WorkbookEntry, name: string): void {
+    const existing = entry.workbook.definedNames.model.find(n => n.name === name);
+    for (const range of existing?.ranges ?? []) {
+      const separator = range.lastIndexOf("!");
+      const sheetRef = range.substring(0, separator);
+      const { start, end } = this.parseRangeReference(range.substring(separator + 1).replace(/\$/g, ""));
+      for (let row = start.row; row <= end.row; row++) {
+        for (let col = start.col; col <= end.col; col++) {
+          entry.workbook.definedNames.remove(`${sheetRef}!$${this.columnIndexToLetter(col)}$${row}`, name);
+        }
+      }
+    }
+  }
+
+  // Pick up formula text HyperFormula rewrote after a structural change
+  private syncNamesFromHyperFormula(entry: WorkbookEntry): void {
+    for (const definedName of entry.names) {
+      const scopeId = definedName.scope !== undefined ? entry.hf.getSheetId(definedName.scope) : undefined;
+      if (definedName.scope !== undefined && scopeId === undefined) continue;
+
+      const formula = entry.hf.getNamedExpressionFormula(definedName.name, scopeId);
+      if (formula !== undefined) {
+        definedName.refersTo = formula.replace(/^=/, "");
+      }
+    }
+  }
+
+  // Tables
+
+  createTable(workbookId: string, sheetIdentifier: string | number, range: string, spec: TableSpec): TableInfo {
+    const entry = this.getWorkbookEntry(workbookId);
+    const sheet = this.getSheet(entry.workbook, sheetIdentifier);
+
+    this.validateName(spec.name);
+    if (this.findTable(entry.workbook, spec.name) || entry.names.some(n => n.name.toLowerCase() === spec.name.toLowerCase())) {
+      throw new Error(`Name "${spec.name}" is already used by a table or defined name`);
+    }
+
+    const { start, end } = this.parseRangeReference(range);
+    const headerRow = spec.headerRow ?? true;
+    const totalsRow = spec.totalsRow ?? spec.totals !== undefined;
+    const firstDataRow = headerRow ? start.row + 1 : start.row;
+    if (firstDataRow > end.row) {
+      throw new Error("A table needs at least one data row");
+    }
+
+    const lastRow = totalsRow ? end.row + 1 : end.row;
+    for (const table of this.getTables(entry.workbook)) {
+      if (table.sheet !== sheet) continue;
+      const bounds = this.getTableBounds(table.model);
+      if (bounds.start.row <= lastRow && bounds.end.row >= start.row && bounds.start.col <= end.col && bounds.end.col >= start.col) {
+        throw new Error(`Range overlaps table "${table.model.name}"`);
+      }
+    }
+    if (totalsRow) {
+      for (let col = start.col; col <= end.col; col++) {
+        const cell = sheet.getCell(lastRow, col);
+        if (cell.value !== null && cell.value !== undefined) {
+          throw new Error(`The totals row needs cell ${cell.address} to be empty`);
+        }
+      }
+    }
+
+    // Column names come from the header row, made unique the way Excel does
+    const columnNames: string[] = [];
+    for (let col = start.col; col <= end.col; col++) {
+      const header = headerRow ? sheet.getCell(start.row, col).text.trim() : "";
+      let name = header || `Column${col - start.col + 1}`;
+      for (let n = 2; columnNames.some(c => c.toLowerCase() === name.toLowerCase()); n++) {
+        name = `${header || `Column${col - start.col + 1}`}${n}`;
+      }
+      columnNames.push(name);
+    }
+
+    for (const column of Object.keys(spec.totals ?? {})) {
+      const index = columnNames.findIndex(c => c.toLowerCase() === column.toLowerCase());
+      if (index < 0) {
+        throw new Error(`Column "${column}" not found in table`);
+      }
+      if (index === 0) {
+        throw new Error("The first column of the totals row holds the label and can't have a totals function");
+      }
+    }
+    this.recordChange(entry, `Create table "${spec.name}" on ${sheet.name}!${range}`);
+
+    const rows: ExcelJS.CellValue[][] = [];
+    for (let row = firstDataRow; row <= end.row; row++) {
+      const values: ExcelJS.CellValue[] = [];
+      for (let col = start.col; col <= end.col; col++) {
+        values.push(sheet.getCell(row, col).value);
+      }
+      rows.push(values);
+    }
+
+    sheet.addTable({
+      name: spec.name,
+      displayName: spec.name,
+      ref: `${this.columnIndexToLetter(start.col)}${start.row}`,
+      headerRow,
+      totalsRow,
+      style: {
+        theme: (spec.style?.theme ?? "TableStyleMedium2") as ExcelJS.TableStyleProperties["theme"],
+        showRowStripes: spec.style?.showRowStripes ?? true,
+        showColumnStripes: spec.style?.showColumnStripes ?? false,
+        showFirstColumn: spec.style?.showFirstColumn ?? false,
+        showLastColumn: spec.style?.showLastColumn ?? false,
+      },
+      columns: columnNames.map(name => {
+        const totals = Object.entries(spec.totals ?? {}).find(([column]) => column.toLowerCase() === name.toLowerCase());
+        return { name, filterButton: headerRow, totalsRowFunction: totals?.[1] };
+      }),
+      rows,
+    });
+
+    this.syncSheetToHyperFormula(sheet, entry.hf, sheet.name);
+    this.syncStructuredReferences(entry);
+
+    return this.toTableInfo(this.getTable(entry.workbook, spec.name));
+  }
+
+  listTables(workbookId: string, sheetIdentifier?: string | number): TableInfo[] {
+    const entry = this.getWorkbookEntry(workbookId);
+    const sheet = sheetIdentifier !== undefined ? this.getSheet(entry.workbook, sheetIdentifier) : undefined;
+
+    return this.getTables(entry.workbook)
+      .filter(table => sheet === undefined || table.sheet === sheet)
+      .map(table => this.toTableInfo(table));
+  }
+
+  /**
+   * Append rows below a table's data, moving its totals row down. Rows are
+   * arrays in column order or records keyed by column name; a column left out
+   * of a record continues the formula of the last data row, like an Excel
+   * calculated column.
+   */
+  appendTableRows(
+    workbookId: string,
+    tableName: string,
+    rows: Array<Array<string | number | boolean | null> | Record<string, string | number | boolean | null>>
+  ): { table: string; range: string; rowsAdded: number } {
+    const entry = this.getWorkbookEntry(workbookId);
+    const table = this.getTable(entry.workbook, tableName);
+    const { sheet, model } = table;
+    const bounds = this.getTableBounds(model);
+    const count = rows.length;
+
+    for (let row = bounds.end.row + 1; row <= bounds.end.row + count; row++) {
+      for (let col = bounds.start.col; col <= bounds.end.col; col++) {
+        const cell = sheet.getCell(row, col);
+        if (cell.value !== null && cell.value !== undefined) {
+          throw new Error(`Cannot append ${count} rows to table "${model.name}": cell ${cell.address} below it is not empty`);
+        }
+      }
+    }
+    for (const values of rows) {
+      if (Array.isArray(values)) continue;
+      for (const key of Object.keys(values)) {
+        if (!model.columns.some(c => c.name.toLowerCase() === key.toLowerCase())) {
+          throw new Error(`Column "${key}" not found in table "${model.name}"`);
+        }
+      }
+    }
+    this.recordChange(entry, `Append ${count} row${count === 1 ? "" : "s"} to table "${model.name}"`);
+
+    if (bounds.totalsRow !== undefined) {
+      for (let col = bounds.start.col; col <= bounds.end.col; col++) {
+        const from = sheet.getCell(bounds.totalsRow, col);
+        const to = sheet.getCell(bounds.totalsRow + count, col);
+        to.value = from.value;
+        to.style = { ...from.style };
+        from.value = null;
+      }
+    }
+
+    for (let i = 0; i < count; i++) {
+      const values = rows[i];
+      const rowNumber = bounds.lastDataRow + 1 + i;
+
+      model.columns.forEach((column, index) => {
+        const col = bounds.start.col + index;
+        const template = sheet.getCell(bounds.lastDataRow, col);
+        const cell = sheet.getCell(rowNumber, col);
+        const key = Array.isArray(values) ? undefined : Object.keys(values).find(k => k.toLowerCase() === column.name.toLowerCase());
+        const value = Array.isArray(values) ? values[index] : key !== undefined ? values[key] : undefined;
+
+        if (value === undefined && template.formula) {
+          cell.value = { formula: this.shiftFormula(template.formula, rowNumber - bounds.lastDataRow, 0) };
+        } else if (typeof value === "string" && value.startsWith("=")) {
+          cell.value = { formula: value.substring(1) };
+        } else {
+          cell.value = value ?? null;
+        }
+        cell.style = { ...template.style };
+      });
+    }
+
+    model.tableRef = this.formatRangeReference(bounds.start, { row: bounds.end.row + count, col: bounds.end.col });
+    model.autoFilterRef = this.formatRangeReference(bounds.start, { row: bounds.lastDataRow + count, col: bounds.end.col });
+
+    this.syncSheetToHyperFormula(sheet, entry.hf, sheet.name);
+    this.syncStructuredReferences(entry);
+
+    return { table: model.name, range: model.tableRef, rowsAdded: count };
+  }
+
+  readTable(
+    workbookId: string,
+    tableName: string
+  ): { name: string; sheet: string; range: string; rows: Array<Record<string, unknown>>; totals?: Record<string, unknown> } {
+    const entry = this.getWorkbookEntry(workbookId);
+    const table = this.getTable(entry.workbook, tableName);
+    const bounds = this.getTableBounds(table.model);
+    const hfSheetId = entry.hf.getSheetId(table.sheet.name);
+
+    const readRecord = (row: number): Record<string, unknown> => {
+      const record: Record<string, unknown> = {};
+      table.model.columns.forEach((column, index) => {
+        const col = bounds.start.col + index;
+        record[column.name] =
+          hfSheetId !== undefined
+            ? entry.hf.getCellValue({ sheet: hfSheetId, row: row - 1, col: col - 1 })
+            : table.sheet.getCell(row, col).value;
+      });
+      return record;
+    };
+
+    const rows: Array<Record<string, unknown>> = [];
+    for (let row = bounds.firstDataRow; row <= bounds.lastDataRow; row++) {
+      rows.push(readRecord(row));
+    }
+
+    return {
+      name: table.model.name,
+      sheet: table.sheet.name,
+      range: table.model.tableRef,
+      rows,
+      totals: bounds.totalsRow !== undefined ? readRecord(bounds.totalsRow) : undefined,
+    };
+  }
+
+  private getTables(workbook: ExcelJS.Workbook): Array<{ sheet: ExcelJS.Worksheet; model: TableModel }> {
+    return workbook.worksheets.flatMap(sheet =>
+      (sheet.getTables() as unknown as Array<{ table: TableModel }>).map(table => ({ sheet, model: table.table }))
+    );
+  }
+
+  private findTable(workbook: ExcelJS.Workbook, name: string): { sheet: ExcelJS.Worksheet; model: TableModel } | undefined {
+    // Table names share the case-insensitive namespace of defined names
+    return this.getTables(workbook).find(table => table.model.name.toLowerCase() === name.toLowerCase());
+  }
+
+  private getTable(workbook: ExcelJS.Workbook, name: string): { sheet: ExcelJS.Worksheet; model: TableModel } {
+    const table = this.findTable(workbook, name);
+    if (!table) {
+      throw new Error(`Table "${name}" not found`);
+    }
+    return table;
+  }
+
+  private getTableBounds(model: TableModel): {
+    start: { row: number; col: number };
+    end: { row: number; col: number };
+    headerRow?: number;
+    firstDataRow: number;
+    lastDataRow: number;
+    totalsRow?: number;
+  } {
+    const { start, end } = this.parseRangeReference(model.tableRef);
+    return {
+      start,
+      end,
+      headerRow: model.headerRow ? start.row : undefined,
+      firstDataRow: model.headerRow ? start.row + 1 : start.row,
+      lastDataRow: model.totalsRow ? end.row - 1 : end.row,
+      totalsRow: model.totalsRow ? end.row : undefined,
+    };
+  }
+
+  private toTableInfo(table: { sheet: ExcelJS.Worksheet; model: TableModel }): TableInfo {
+    const bounds = this.getTableBounds(table.model);
+    return {
+      name: table.model.name,
+      sheet: table.sheet.name,
+      range: table.model.tableRef,
+      headerRow: table.model.headerRow,
+      totalsRow: table.model.totalsRow,
+      columns: table.model.columns.map(column => column.name),
+      rowCount: bounds.lastDataRow - bounds.firstDataRow + 1,
+      style: table.model.style?.theme ?? undefined,
+    };
+  }
+
+  /**
+   * Rewrite the structured references in a formula (Sales[Amount],
+   * Sales[[#Totals],[Qty]], [@Price], a bare table name) as absolute A1
+   * ranges HyperFormula can calculate. References without a table name use
+   * the table the formula's cell sits in. ExcelJS keeps the original text.
+   */
+  private resolveStructuredReferences(
+    workbook: ExcelJS.Workbook,
+    formula: string,
+    sheetName: string,
+    row: number,
+    col: number
+  ): string {
+    const tables = this.getTables(workbook);
+    if (tables.length === 0) return formula;
+
+    const containing = tables.find(table => {
+      if (table.sheet.name !== sheetName) return false;
+      const { start, end } = this.getTableBounds(table.model);
+      return row >= start.row && row <= end.row && col >= start.col && col <= end.col;
+    });
+
+    let result = "";
+    let i = 0;
+    while (i < formula.length) {
+      const char = formula[i];
+
+      // String literals and quoted sheet names pass through untouched
+      if (char === '"' || char === "'") {
+        let end = i + 1;
+        while (end < formula.length && (formula[end] !== char || formula[end + 1] === char)) {
+          end += formula[end] === char ? 2 : 1;
+        }
+        result += formula.substring(i, end + 1);
+        i = end + 1;
+        continue;
+      }
+
+      if (char === "[") {
+        const end = this.findBracketEnd(formula, i);
+        if (end < 0 || !containing) {
+          result += char;
+          i++;
+          continue;
+        }
+        result += this.structuredReferenceToA1(containing, formula.substring(i + 1, end), row);
+        i = end + 1;
+        continue;
+      }
+
+      const word = /^[A-Za-z0-9_.\\]+/.exec(formula.substring(i))?.[0];
+      if (!word) {
+        result += char;
+        i++;
+        continue;
+      }
+
+      const table = tables.find(t => t.model.name.toLowerCase() === word.toLowerCase());
+      const next = formula[i + word.length];
+      if (table && next === "[") {
+        const end = this.findBracketEnd(formula, i + word.length);
+        if (end >= 0) {
+          result += this.structuredReferenceToA1(table, formula.substring(i + word.length + 1, end), row);
+          i = end + 1;
+          continue;
+        }
+      } else if (table && next !== "(" && next !== "!") {
+        result += this.structuredReferenceToA1(table, "", row);
+        i += word.length;
+        continue;
+      }
+      result += word;
+      i += word.length;
+    }
+    return result;
+  }
+
+  // Index of the "]" closing the bracket at `open`; "'" escapes the next character
+  private findBracketEnd(text: string, open: number): number {
+    let depth = 0;
+    for (let i = open; i < text.length; i++) {
+      if (text[i] === "'") {
+        i++;
+      } else if (text[i] === "[") {
+        depth++;
+      } else if (text[i] === "]" && --depth === 0) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  private structuredReferenceToA1(table: { sheet: ExcelJS.Worksheet; model: TableModel }, specifier: string, row: number): string {
+    const bounds = this.getTableBounds(table.model);
+    const items: string[] = [];
+    let span = false;
+    let thisRow = false;
+
+    let body = specifier.trim();
+    if (body.startsWith("@")) {
+      thisRow = true;
+      body = body.substring(1).trim();
+    }
+    if (body.startsWith("[")) {
+      for (let i = 0; i < body.length; ) {
+        if (body[i] === "[") {
+          const end = this.findBracketEnd(body, i);
+          if (end < 0) return "#REF!";
+          items.push(body.substring(i + 1, end));
+          i = end + 1;
+        } else if (body[i] === ":") {
+          span = true;
+          i++;
+        } else if (body[i] === "," || body[i] === " ") {
+          i++;
+        } else {
+          return "#REF!";
+        }
+      }
+    } else if (body) {
+      items.push(body);
+    }
+
+    const specials = items.filter(item => item.startsWith("#")).map(item => item.toLowerCase());
+    const columns = items.filter(item => !item.startsWith("#")).map(item => item.replace(/'(.)/g, "$1").trim());
+    if (thisRow) specials.push("#this row");
+
+    let firstRow = bounds.firstDataRow;
+    let lastRow = bounds.lastDataRow;
+    if (specials.includes("#this row")) {
+      if (row < bounds.firstDataRow || row > bounds.lastDataRow) return "#VALUE!";
+      firstRow = lastRow = row;
+    } else if (specials.length > 0) {
+      const rows: number[] = [];
+      for (const special of specials) {
+        if (special === "#all") {
+          rows.push(bounds.start.row, bounds.end.row);
+        } else if (special === "#data") {
+          rows.push(bounds.firstDataRow, bounds.lastDataRow);
+        } else if (special === "#headers" && bounds.headerRow !== undefined) {
+          rows.push(bounds.headerRow);
+        } else if (special === "#totals" && bounds.totalsRow !== undefined) {
+          rows.push(bounds.totalsRow);
+        } else {
+          return "#REF!";
+        }
+      }
+      firstRow = Math.min(...rows);
+      lastRow = Math.max(...rows);
+    }
+
+    let firstCol = bounds.start.col;
+    let lastCol = bounds.end.col;
+    if (columns.length > 0) {
+      const indexes = columns.map(name => table.model.columns.findIndex(c => c.name.toLowerCase() === name.toLowerCase()));
+      if (indexes.some(index => index < 0) || (columns.length > 1 && !span)) return "#REF!";
+      firstCol = bounds.start.col + Math.min(...indexes);
+      lastCol = bounds.start.col + Math.max(...indexes);
+    }
+
+    const first = `$${this.columnIndexToLetter(firstCol)}$${firstRow}`;
+    const last = `$${this.columnIndexToLetter(lastCol)}$${lastRow}`;
+    return `'${table.sheet.name.replace(/'/g, "''")}'!${first}${first === last ? "" : `:${last}`}`;
+  }
+
+  // Re-resolve formulas that use structured references after a table changes shape
+  private syncStructuredReferences(entry: WorkbookEntry): void {
+    for (const sheet of entry.workbook.worksheets) {
+      const hfSheetId = entry.hf.getSheetId(sheet.name);
+      if (hfSheetId === undefined) continue;
+
+      sheet.eachRow(row => {
+        row.eachCell(cell => {
+          if (!cell.formula) return;
+          const formula = this.resolveStructuredReferences(entry.workbook, cell.formula, sheet.name, cell.fullAddress.row, cell.fullAddress.col);
+          if (formula !== cell.formula) {
+            entry.hf.setCellContents({ sheet: hfSheetId, row: cell.fullAddress.row - 1, col: cell.fullAddress.col - 1 }, `=${formula}`);
+          }
+        });
+      });
+    }
+  }
+
+  // Charts
+
+  createChart(
+    workbookId: string,
+    sheetIdentifier: string | number,
+    options: {
+      type: ChartType;
+      dataRange: string;
+      title?: string;
+      position?: ChartPosition;
+    }
+  ): ChartInfo {
+    const entry = this.getWorkbookEntry(workbookId);
+    const sheet = this.getSheet(entry.workbook, sheetIdentifier);
+
+    if (!["bar", "line", "pie", "scatter"].includes(options.type)) {
+      throw new Error(`Unsupported chart type: ${options.type}`);
+    }
+    const { start, end } = this.parseRangeReference(options.dataRange);
+
+    // Default to just right of the data
+    const position = options.position ?? { col: end.col + 2, row: start.row };
+    if (position.col < 1 || position.row < 1) {
+      throw new Error("Chart position col and row must be 1 or greater");
+    }
+
+    let name = options.title || `Chart ${entry.charts.length + 1}`;
+    for (let n = 2; entry.charts.some(chart => chart.name === name); n++) {
+      name = `${options.title || "Chart"} ${n}`;
+    }
+    this.recordChange(entry, `Create chart "${name}" on ${sheet.name}`);
+
+    const chart: ChartEntry = {
+      name,
+      sheet: sheet.name,
+      type: options.type,
+      title: options.title,
+      dataRange: options.dataRange,
+      position,
+    };
+    entry.charts.push(chart);
+
+    return this.toChartInfo(chart);
+  }
+
+  listCharts(workbookId: string, sheetIdentifier?: string | number): ChartInfo[] {
+    const entry = this.getWorkbookEntry(workbookId);
+    const sheetName = sheetIdentifier !== undefined ? this.getSheet(entry.workbook, sheetIdentifier).name : undefined;
+
+    return entry.charts
+      .filter(chart => sheetName === undefined || chart.sheet === sheetName)
+      .map(chart => this.toChartInfo(chart));
+  }
+
+  deleteChart(workbookId: string, sheetIdentifier: string | number, chartName: string): void {
+    const entry = this.getWorkbookEntry(workbookId);
+    const sheet = this.getSheet(entry.workbook, sheetIdentifier);
+
+    const index = entry.charts.findIndex(
+      chart => chart.sheet === sheet.name && (chart.name === chartName || chart.title === chartName)
+    );
+    if (index < 0) {
+      throw new Error(`Chart "${chartName}" not found on sheet "${sheet.name}"`);
+    }
+    this.recordChange(entry, `Delete chart "${chartName}"`);
+    entry.charts.splice(index, 1);
+  }
+
+  private toChartInfo(chart: ChartEntry): ChartInfo {
+    return {
+      name: chart.name,
+      sheet: chart.sheet,
+      type: chart.type,
+      title: chart.title,
+      dataRange: chart.dataRange,
+      position: chart.position,
+      source: chart.placement ? "file" : "created",
+    };
+  }
+
+  private getChartPlacement(entry: WorkbookEntry, chart: ChartEntry): ChartPlacement {
+    if (chart.placement) {
+      return chart.placement;
+    }
+    const chartXml = buildChartXml(chart.type as ChartType, chart.title, this.buildChartData(entry, chart));
+    return createdChartPlacement(chart.sheet, chart.name, chart.position, chartXml);
+  }
+
+  /**
+   * Series layout for a chart range: the first column holds categories (x values
+   * for scatter) when there is more than one column, and the first row holds
+   * series names when every series column starts with text.
+   */
+  private buildChartData(entry: WorkbookEntry, chart: ChartEntry): ChartData {
+    const { start, end } = this.parseRangeReference(chart.dataRange!);
+    const hfSheetId = entry.hf.getSheetId(chart.sheet);
+    const sheetRef = `'${chart.sheet.replace(/'/g, "''")}'`;
+
+    const valueAt = (row: number, col: number): unknown => {
+      if (hfSheetId === undefined) return null;
+      return entry.hf.getCellValue({ sheet: hfSheetId, row: row - 1, col: col - 1 });
+    };
+    const rangeRef = (row1: number, col1: number, row2: number, col2: number): string => {
+      const first = `$${this.columnIndexToLetter(col1)}$${row1}`;
+      const last = `$${this.columnIndexToLetter(col2)}$${row2}`;
+      return `${sheetRef}!${first}${first === last ? "" : `:${last}`}`;
+    };
+
+    const hasCategories = end.col > start.col;
+    const firstSeriesCol = hasCategories ? start.col + 1 : start.col;
+
+    let hasHeader = end.row > start.row;
+    for (let col = firstSeriesCol; col <= end.col && hasHeader; col++) {
+      hasHeader = typeof valueAt(start.row, col) === "string";
+    }
+    const firstDataRow = hasHeader ? start.row + 1 : start.row;
+
+    const categories: Array<string | number | null> = [];
+    if (hasCategories) {
+      for (let row = firstDataRow; row <= end.row; row++) {
+        const value = valueAt(row, start.col);
+        categories.push(typeof value === "number" || typeof value === "string" ? value : null);
+      }
+    }
+
+    const series = [];
+    for (let col = firstSeriesCol; col <= end.col; col++) {
+      const values: Array<number | null> = [];
+      for (let row = firstDataRow; row <= end.row; row++) {
+        const value = valueAt(row, col);
+        values.push(typeof value === "number" ? value : null);
+      }
+      series.push({
+        name: hasHeader ? String(valueAt(start.row, col)) : null,
+        nameRef: hasHeader ? rangeRef(start.row, col, start.row, col) : null,
+        valuesRef: rangeRef(firstDataRow, col, end.row, col),
+        values,
+      });
+    }
+
+    return {
+      categoriesRef: hasCategories ? rangeRef(firstDataRow, start.col, end.row, start.col) : null,
+      categories,
+      series,
+    };
+  }
+
+  // Pivot Tables
+
+  /**
+   * Summarize source data into a pivot table: row fields down the side with
+   * subtotals, column fields across the top, and grand totals, with report
+   * filters listed above. The values are written to the sheet, and the
+   * definition is kept so refreshPivotTable can recompute it and saving
+   * writes a native Excel pivot table.
+   */
+  createPivotTable(
+    workbookId: string,
+    sourceSheet: string | number,
+    spec: PivotTableSpec
+  ): { name: string; sheet: string; cell: string; range: string; rowCount: number; columnCount: number; native: boolean } {
+    const entry = this.getWorkbookEntry(workbookId);
+    const srcSheet = this.getSheet(entry.workbook, sourceSheet);
+
+    let name = spec.name;
+    if (!name) {
+      let index = entry.pivots.length + 1;
+      while (entry.pivots.some(pivot => pivot.name.toLowerCase() === `pivottable${index}`)) index++;
+      name = `PivotTable${index}`;
+    } else if (entry.pivots.some(pivot => pivot.name.toLowerCase() === name!.toLowerCase())) {
+      throw new Error(`Pivot table "${name}" already exists`);
+    }
+
+    const pivot: PivotTableEntry = {
+      name,
+      sourceSheet: srcSheet.name,
+      spec: {
+        ...spec,
+        name,
+        destinationSheet: spec.destinationSheet || `PivotTable_${Date.now()}`,
+        destinationCell: spec.destinationCell || "A1",
+      },
+      range: "",
+      location: { ref: "", firstHeaderRow: 1, firstDataRow: 1, firstDataCol: 1 },
+    };
+    const layout = this.buildPivotTableLayout(entry, pivot);
+    this.recordChange(entry, `Create pivot table "${name}" from ${srcSheet.name}!${spec.sourceRange}`);
+    const result = this.renderPivotTable(entry, pivot, layout);
+    entry.pivots.push(pivot);
+
+    return { name, sheet: pivot.spec.destinationSheet!, cell: pivot.spec.destinationCell!, ...result, native: this.isNativePivot(pivot.spec) };
+  }
+
+  /**
+   * Recompute pivot tables from their source data, replacing the cells they
+   * last wrote. Refreshes every pivot table in the workbook when no name is given.
+   */
+  refreshPivotTable(
+    workbookId: string,
+    name?: string
+  ): Array<{ name: string; sheet: string; range: string; rowCount: number; columnCount: number }> {
+    const entry = this.getWorkbookEntry(workbookId);
+    const pivots = name ? entry.pivots.filter(pivot => pivot.name.toLowerCase() === name.toLowerCase()) : entry.pivots;
+    if (name && pivots.length === 0) {
+      throw new Error(`Pivot table "${name}" not found`);
+    }
+    const layouts = pivots.map(pivot => this.buildPivotTableLayout(entry, pivot));
+    this.recordChange(entry, name ? `Refresh pivot table "${pivots[0].name}"` : "Refresh pivot tables");
+
+    return pivots.map((pivot, index) => ({
+      name: pivot.name,
+      sheet: pivot.spec.destinationSheet!,
+      ...this.renderPivotTable(entry, pivot, layouts[index]),
+    }));
+  }
+
+  // Check a pivot table's fields against its source and lay out its cells, without changing anything
+  private buildPivotTableLayout(entry: WorkbookEntry, pivot: PivotTableEntry): PivotLayout {
+    const { spec } = pivot;
+    const srcSheet = this.getSheet(entry.workbook, pivot.sourceSheet);
+
+    // Calculated values, with dates as ISO text and errors as their text
+    const { headers, records } = this.readRecords(entry, srcSheet, spec.sourceRange);
+    const fields = [
+      ...spec.rowFields,
+      ...(spec.columnFields ?? []),
+      ...spec.dataFields.map(dataField => dataField.field),
+      ...(spec.filters ?? []).map(filter => filter.field),
+    ];
+    for (const field of fields) {
+      if (!headers.includes(field)) {
+        throw new Error(`Unknown field "${field}". Fields: ${headers.join(", ")}`);
       }
-      data.push(rowData);
     }
+    if (spec.dataFields.length === 0) {
+      throw new Error("A pivot table needs at least one data field");
+    }
+
+    this.parseCellReference(spec.destinationCell!);
+    return this.buildPivotLayout(records, spec);
+  }
+
+  // Write a pivot table's values, clearing what it wrote last time
+  private renderPivotTable(
+    entry: WorkbookEntry,
+    pivot: PivotTableEntry,
+    layout: PivotLayout
+  ): { range: string; rowCount: number; columnCount: number } {
+    const { spec } = pivot;
 
     // Create or get destination sheet
-    const destSheetName = options.destinationSheet || `PivotTable_${Date.now()}`;
+    const destSheetName = spec.destinationSheet!;
     let destSheet: ExcelJS.Worksheet;
 
     try {
@@ -479,82 +4055,380 @@ export class ExcelClient {
       destSheet = this.getSheet(entry.workbook, destSheetName);
     }
 
-    const destCell = options.destinationCell || "A1";
-    const destRef = this.parseCellReference(destCell);
-
-    // Group data by row fields
-    const grouped = new Map<string, Array<Record<string, unknown>>>();
-
-    for (const row of data) {
-      const key = options.rowFields.map(f => String(row[f] || "")).join("|");
-      if (!grouped.has(key)) {
-        grouped.set(key, []);
+    if (pivot.range) {
+      const previous = this.parseRangeReference(pivot.range);
+      for (let row = previous.start.row; row <= previous.end.row; row++) {
+        for (let col = previous.start.col; col <= previous.end.col; col++) {
+          const cell = destSheet.getCell(row, col);
+          cell.value = null;
+          cell.style = {};
+        }
       }
-      grouped.get(key)!.push(row);
     }
 
-    // Write pivot table header
-    let col = destRef.col;
-    for (const field of options.rowFields) {
-      destSheet.getCell(destRef.row, col).value = field;
-      col++;
-    }
-    for (const dataField of options.dataFields) {
-      destSheet.getCell(destRef.row, col).value = `${dataField.aggregation.toUpperCase()}(${dataField.field})`;
-      col++;
+    const destRef = this.parseCellReference(spec.destinationCell!);
+
+    // Report filters, then a blank row, then the table
+    let row = destRef.row;
+    for (const filter of spec.filters ?? []) {
+      destSheet.getCell(row, destRef.col).value = filter.field;
+      destSheet.getCell(row, destRef.col).font = { bold: true };
+      destSheet.getCell(row, destRef.col + 1).value =
+        filter.values.length === 1 ? (filter.values[0] as ExcelJS.CellValue) : "(Multiple Items)";
+      row++;
     }
+    if (spec.filters?.length) row++;
+
+    layout.rows.forEach((cells, index) => {
+      const bold = index < layout.headerRows || layout.totalRows.includes(index);
+      cells.forEach((value, offset) => {
+        const cell = destSheet.getCell(row + index, destRef.col + offset);
+        cell.value = value as ExcelJS.CellValue;
+        if (bold) cell.font = { bold: true };
+        if (index >= layout.headerRows && layout.columnFormats[offset]) cell.numFmt = layout.columnFormats[offset]!;
+      });
+    });
+
+    // Sync destination sheet to HyperFormula
+    this.syncSheetToHyperFormula(destSheet, entry.hf, destSheetName);
+
+    const tableWidth = layout.rows[0].length;
+    const columnCount = Math.max(tableWidth, spec.filters?.length ? 2 : 0);
+    const end = { row: row + layout.rows.length - 1, col: destRef.col + columnCount - 1 };
+    pivot.range = this.formatRangeReference(destRef, end);
+    pivot.location = {
+      ref: this.formatRangeReference({ row, col: destRef.col }, { row: end.row, col: destRef.col + tableWidth - 1 }),
+      firstHeaderRow: 1,
+      firstDataRow: layout.headerRows,
+      firstDataCol: Math.max(spec.rowFields.length, 1),
+    };
+    return { range: pivot.range, rowCount: end.row - destRef.row + 1, columnCount };
+  }
 
-    // Write aggregated data
-    let row = destRef.row + 1;
-    for (const [key, rows] of grouped) {
-      col = destRef.col;
-      const keyParts = key.split("|");
+  private isNativePivot(spec: PivotTableSpec): boolean {
+    return spec.dataFields.every(dataField => NATIVE_PIVOT_SUBTOTALS[dataField.aggregation] !== undefined);
+  }
 
-      // Write row field values
-      for (const part of keyParts) {
-        destSheet.getCell(row, col).value = part;
-        col++;
+  // The pivot cache and table definition written on save; undefined when Excel has no equivalent
+  private getNativePivotTable(entry: WorkbookEntry, pivot: PivotTableEntry): NativePivotTable | undefined {
+    const { spec } = pivot;
+    const source = entry.workbook.getWorksheet(pivot.sourceSheet);
+    if (!this.isNativePivot(spec) || !source || !pivot.range) return undefined;
+
+    const { headers, records } = this.readRecords(entry, source, spec.sourceRange);
+    const fieldIndex = (field: string) => headers.indexOf(field);
+    const used = [...spec.rowFields, ...(spec.columnFields ?? []), ...spec.dataFields.map(dataField => dataField.field)];
+    if (used.some(field => fieldIndex(field) < 0)) return undefined;
+
+    // Headers are already distinct, as Excel needs for cache field names
+    const fields: NativePivotTable["fields"] = headers.map(name => ({ name }));
+
+    // Page fields list every item in the source, with the filtered ones selected
+    const pageFields: NativePivotTable["pageFields"] = [];
+    for (const filter of spec.filters ?? []) {
+      const index = fieldIndex(filter.field);
+      if (index < 0) return undefined;
+
+      const items = new Map<string, PivotItem>();
+      for (const record of records) {
+        const value = record[filter.field];
+        const item: PivotItem =
+          value === null || value === undefined || value === ""
+            ? null
+            : typeof value === "string" || typeof value === "number" || typeof value === "boolean"
+              ? value
+              : String(value);
+        if (!items.has(this.pivotKey(item))) items.set(this.pivotKey(item), item);
       }
+      const keys = [...items.keys()];
+      const selected = filter.values.flatMap(value => {
+        const position = keys.indexOf(value === "(blank)" ? this.pivotKey(null) : this.pivotKey(value));
+        return position >= 0 ? [position] : [];
+      });
+      fields[index].items = [...items.values()];
+      pageFields.push({ field: index, selected });
+    }
+
+    return {
+      name: pivot.name,
+      sheet: spec.destinationSheet!,
+      location: pivot.location,
+      source: { sheet: pivot.sourceSheet, ref: spec.sourceRange.replace(/\$/g, "") },
+      fields,
+      rowFields: spec.rowFields.map(fieldIndex),
+      columnFields: (spec.columnFields ?? []).map(fieldIndex),
+      dataFields: spec.dataFields.map(dataField => ({
+        name: this.pivotDataLabel(dataField),
+        field: fieldIndex(dataField.field),
+        subtotal: NATIVE_PIVOT_SUBTOTALS[dataField.aggregation]!,
+        percentOfTotal: dataField.aggregation === "percentOfTotal",
+      })),
+      pageFields,
+      sort: {
+        descending: spec.sort?.order === "desc",
+        byDataField: spec.sort?.by === "value" ? (spec.sort.dataField ?? 0) : undefined,
+      },
+      subtotals: spec.subtotals ?? true,
+      grandTotals: spec.grandTotals ?? true,
+    };
+  }
 
-      // Calculate and write aggregations
-      for (const dataField of options.dataFields) {
-        const values = rows
-          .map(r => r[dataField.field])
-          .filter(v => typeof v === "number") as number[];
+  // The reverse of getNativePivotTable, for pivot tables in an opened file
+  private readPivotTableEntry(workbook: ExcelJS.Workbook, native: NativePivotTable): PivotTableEntry | undefined {
+    if (!workbook.getWorksheet(native.sheet) || !workbook.getWorksheet(native.source.sheet)) return undefined;
+
+    const fieldName = (index: number) => native.fields[index]?.name;
+    const used = [
+      ...native.rowFields,
+      ...native.columnFields,
+      ...native.dataFields.map(dataField => dataField.field),
+      ...native.pageFields.map(pageField => pageField.field),
+    ];
+    if (used.some(index => fieldName(index) === undefined)) return undefined;
+
+    // Report filters sit above the table, followed by a blank row
+    const location = this.parseRangeReference(native.location.ref);
+    const filterRows = native.pageFields.length > 0 ? native.pageFields.length + 1 : 0;
+    if (location.start.row - filterRows < 1) return undefined;
+    const destination = { row: location.start.row - filterRows, col: location.start.col };
+    const end = { row: location.end.row, col: Math.max(location.end.col, filterRows > 0 ? destination.col + 1 : 0) };
+
+    const spec: PivotTableSpec = {
+      name: native.name,
+      sourceRange: native.source.ref,
+      destinationSheet: native.sheet,
+      destinationCell: this.formatRangeReference(destination, destination),
+      rowFields: native.rowFields.map(index => fieldName(index)!),
+      columnFields: native.columnFields.map(index => fieldName(index)!),
+      dataFields: native.dataFields.map(dataField => ({
+        field: fieldName(dataField.field)!,
+        aggregation: dataField.percentOfTotal
+          ? "percentOfTotal"
+          : dataField.subtotal === "stdDev"
+            ? "stdev"
+            : dataField.subtotal,
+        name: dataField.name || undefined,
+      })),
+      filters: native.pageFields.map(pageField => ({
+        field: fieldName(pageField.field)!,
+        values: pageField.selected.map(index => {
+          const item = native.fields[pageField.field].items?.[index];
+          return item === null || item === undefined ? "(blank)" : item;
+        }),
+      })),
+      sort:
+        native.sort.byDataField !== undefined
+          ? { by: "value", order: native.sort.descending ? "desc" : "asc", dataField: native.sort.byDataField }
+          : native.sort.descending
+            ? { by: "label", order: "desc" }
+            : undefined,
+      subtotals: native.subtotals,
+      grandTotals: native.grandTotals,
+    };
 
-        let result: number = 0;
-        switch (dataField.aggregation) {
-          case "sum":
-            result = values.reduce((a, b) => a + b, 0);
-            break;
-          case "count":
-            result = rows.length;
-            break;
-          case "average":
-            result = values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
-            break;
-          case "min":
-            result = values.length > 0 ? Math.min(...values) : 0;
-            break;
-          case "max":
-            result = values.length > 0 ? Math.max(...values) : 0;
-            break;
-        }
+    return {
+      name: native.name,
+      sourceSheet: native.source.sheet,
+      spec,
+      range: this.formatRangeReference(destination, end),
+      location: native.location,
+    };
+  }
 
-        destSheet.getCell(row, col).value = result;
-        col++;
+  // Group key for pivot items: blanks are one item and text ignores case, as in Excel
+  private pivotKey(value: unknown): string {
+    const blank = value === null || value === undefined || value === "";
+    return JSON.stringify(blank ? "" : typeof value === "string" ? value.toLowerCase() : value);
+  }
+
+  private pivotDataLabel(dataField: PivotTableSpec["dataFields"][number]): string {
+    return (
+      dataField.name ??
+      (dataField.aggregation === "percentOfTotal"
+        ? `% of Total ${dataField.field}`
+        : `${PIVOT_AGGREGATION_LABELS[dataField.aggregation]} of ${dataField.field}`)
+    );
+  }
+
+  private buildPivotLayout(allRecords: Array<Record<string, unknown>>, spec: PivotTableSpec): PivotLayout {
+    const rowFields = spec.rowFields;
+    const columnFields = spec.columnFields ?? [];
+    const dataFields = spec.dataFields;
+    const subtotals = spec.subtotals ?? true;
+    const grandTotals = spec.grandTotals ?? true;
+    const blank = (value: unknown) => value === null || value === undefined || value === "";
+    const labelOf = (value: unknown) => (blank(value) ? "(blank)" : value);
+    // Group keys are JSON, so values containing any character stay distinct
+    const keyOf = (value: unknown) => this.pivotKey(value);
+
+    const records = allRecords.filter(record =>
+      (spec.filters ?? []).every(filter =>
+        filter.values.some(value => (value === "(blank)" ? blank(record[filter.field]) : keyOf(value) === keyOf(record[filter.field])))
+      )
+    );
+
+    const grandSums = new Map<string, number>();
+    // Cells with nothing to aggregate stay blank, as in Excel, rather than showing 0
+    const nothingToAggregate = (aggregation: PivotTableSpec["dataFields"][number]["aggregation"], values: unknown[]) => {
+      if (aggregation === "count" || aggregation === "distinctCount") return values.every(blank);
+      const numbers = values.filter(value => typeof value === "number").length;
+      return aggregation === "stdev" ? numbers < 2 : numbers === 0;
+    };
+    const valueOf = (group: Array<Record<string, unknown>>, dataField: PivotTableSpec["dataFields"][number]): number | null => {
+      const values = group.map(record => record[dataField.field]);
+      if (nothingToAggregate(dataField.aggregation, values)) return null;
+      if (dataField.aggregation !== "percentOfTotal") return this.aggregate(dataField.aggregation, values);
+      if (!grandSums.has(dataField.field)) {
+        grandSums.set(dataField.field, this.aggregate("sum", records.map(record => record[dataField.field])));
       }
+      const total = grandSums.get(dataField.field)!;
+      return total === 0 ? null : this.aggregate("sum", values) / total;
+    };
 
-      row++;
+    const order = spec.sort?.order ?? "asc";
+    const sortField = dataFields[spec.sort?.dataField ?? 0] ?? dataFields[0];
+    const compareLabels = (a: unknown, b: unknown, column: string, direction: "asc" | "desc" = "asc") =>
+      this.compareSortValues(a, b, { column, order: direction });
+
+    // Nested groups of row field values, sorted at each level
+    const groupBy = (group: Array<Record<string, unknown>>, level: number): PivotGroup[] => {
+      if (level >= rowFields.length) return [];
+      const groups = new Map<string, PivotGroup>();
+      for (const record of group) {
+        const key = keyOf(record[rowFields[level]]);
+        if (!groups.has(key)) groups.set(key, { label: record[rowFields[level]], records: [], children: [] });
+        groups.get(key)!.records.push(record);
+      }
+      const result = [...groups.values()];
+      if (spec.sort?.by === "value") {
+        const totals = new Map(result.map(item => [item, valueOf(item.records, sortField)]));
+        result.sort((a, b) => compareLabels(totals.get(a), totals.get(b), sortField.field, order));
+      } else {
+        result.sort((a, b) => compareLabels(a.label, b.label, rowFields[level], order));
+      }
+      for (const item of result) item.children = groupBy(item.records, level + 1);
+      return result;
+    };
+
+    // Column keys: each distinct combination of column field values, in label order
+    const columnKeyOf = new Map<Record<string, unknown>, string>();
+    const columnKeys = new Map<string, unknown[]>();
+    for (const record of records) {
+      const values = columnFields.map(field => record[field]);
+      const key = JSON.stringify(values.map(keyOf));
+      columnKeyOf.set(record, key);
+      if (!columnKeys.has(key)) columnKeys.set(key, values);
     }
+    const slots = [...columnKeys.entries()].sort(([, a], [, b]) => {
+      for (let level = 0; level < columnFields.length; level++) {
+        const result = compareLabels(a[level], b[level], columnFields[level]);
+        if (result !== 0) return result;
+      }
+      return 0;
+    });
+    const totalColumns = columnFields.length > 0 && grandTotals;
 
-    // Sync destination sheet to HyperFormula
-    this.syncSheetToHyperFormula(destSheet, entry.hf, destSheetName);
+    const valueCells = (group: Array<Record<string, unknown>>): unknown[] => {
+      const cells: unknown[] = [];
+      if (columnFields.length === 0) {
+        for (const dataField of dataFields) cells.push(valueOf(group, dataField));
+        return cells;
+      }
+      for (const [key] of slots) {
+        const inSlot = group.filter(record => columnKeyOf.get(record) === key);
+        for (const dataField of dataFields) cells.push(valueOf(inSlot, dataField));
+      }
+      if (totalColumns) {
+        for (const dataField of dataFields) cells.push(valueOf(group, dataField));
+      }
+      return cells;
+    };
 
-    return {
-      sheet: destSheetName,
-      cell: destCell,
+    const labelColumns = Math.max(rowFields.length, 1);
+    const dataLabel = (dataField: PivotTableSpec["dataFields"][number]) => this.pivotDataLabel(dataField);
+
+    // Header rows: one per column field, then the row field names and data field labels
+    const rows: unknown[][] = [];
+    columnFields.forEach((field, level) => {
+      const header: unknown[] = new Array(labelColumns).fill(null);
+      header[labelColumns - 1] = field;
+      slots.forEach(([, values], index) => {
+        const previous = index > 0 ? slots[index - 1][1] : undefined;
+        const starts = !previous || values.slice(0, level + 1).some((value, i) => keyOf(value) !== keyOf(previous[i]));
+        header.push(starts ? labelOf(values[level]) : null, ...new Array(dataFields.length - 1).fill(null));
+      });
+      if (totalColumns) header.push(level === 0 ? "Grand Total" : null, ...new Array(dataFields.length - 1).fill(null));
+      rows.push(header);
+    });
+    const fieldRow: unknown[] = rowFields.length > 0 ? [...rowFields] : [null];
+    const slotCount = columnFields.length === 0 ? 1 : slots.length + (totalColumns ? 1 : 0);
+    for (let slot = 0; slot < slotCount; slot++) fieldRow.push(...dataFields.map(dataLabel));
+    rows.push(fieldRow);
+    const headerRows = rows.length;
+
+    // Body: leaf rows with every label, subtotals after each outer group
+    const totalRows: number[] = [];
+    const emit = (groups: PivotGroup[], level: number, labels: unknown[]) => {
+      for (const group of groups) {
+        const path = [...labels, labelOf(group.label)];
+        if (level === rowFields.length - 1) {
+          rows.push([...path, ...valueCells(group.records)]);
+          continue;
+        }
+        emit(group.children, level + 1, path);
+        if (subtotals) {
+          totalRows.push(rows.length);
+          const label: unknown[] = [...labels, `${labelOf(group.label)} Total`];
+          rows.push([...label, ...new Array(labelColumns - label.length).fill(null), ...valueCells(group.records)]);
+        }
+      }
     };
+    emit(groupBy(records, 0), 0, []);
+    if (grandTotals || rowFields.length === 0) {
+      totalRows.push(rows.length);
+      rows.push(["Grand Total", ...new Array(labelColumns - 1).fill(null), ...valueCells(records)]);
+    }
+
+    const columnFormats: Array<string | undefined> = new Array(labelColumns).fill(undefined);
+    for (let slot = 0; slot < slotCount; slot++) {
+      columnFormats.push(...dataFields.map(dataField => (dataField.aggregation === "percentOfTotal" ? "0.00%" : undefined)));
+    }
+    return { rows, headerRows, totalRows, columnFormats };
+  }
+
+  // Count counts every non-empty value; the others use only the numeric ones
+  private aggregate(aggregation: Aggregation, values: unknown[]): number {
+    const numbers = values.filter(v => typeof v === "number") as number[];
+    const mean = numbers.length > 0 ? numbers.reduce((a, b) => a + b, 0) / numbers.length : 0;
+
+    switch (aggregation) {
+      case "sum":
+        return numbers.reduce((a, b) => a + b, 0);
+      case "count":
+        return values.filter(v => v !== null && v !== undefined && v !== "").length;
+      case "average":
+        return mean;
+      case "min":
+        return numbers.length > 0 ? Math.min(...numbers) : 0;
+      case "max":
+        return numbers.length > 0 ? Math.max(...numbers) : 0;
+      case "distinctCount":
+        // Text is compared ignoring case, as Excel does
+        return new Set(
+          values.filter(v => v !== null && v !== undefined && v !== "").map(v => (typeof v === "string" ? v.toLowerCase() : v))
+        ).size;
+      case "median": {
+        if (numbers.length === 0) return 0;
+        const sorted = [...numbers].sort((a, b) => a - b);
+        const middle = Math.floor(sorted.length / 2);
+        return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+      }
+      case "stdev":
+        // Sample standard deviation, like STDEV
+        return numbers.length > 1
+          ? Math.sqrt(numbers.reduce((sum, n) => sum + (n - mean) ** 2, 0) / (numbers.length - 1))
+          : 0;
+    }
   }
 
   // Markdown Import
@@ -593,6 +4467,7 @@ export class ExcelClient {
     if (workbookId) {
       wbId = workbookId;
       entry = this.getWorkbookEntry(workbookId);
+      this.recordChange(entry, `Import markdown table to "${sheetName || "Imported"}"`);
     } else {
       wbId = this.createWorkbook();
       entry = this.getWorkbookEntry(wbId);
@@ -612,9 +4487,10 @@ export class ExcelClient {
     // Write headers to row 1
     const hfSheetId = entry.hf.getSheetId(targetSheetName);
     for (let col = 0; col < headers.length; col++) {
-      sheet.getCell(1, col + 1).value = headers[col];
+      const cell = sheet.getCell(1, col + 1);
+      cell.value = headers[col];
       if (hfSheetId !== undefined) {
-        entry.hf.setCellContents({ sheet: hfSheetId, row: 0, col }, headers[col]);
+        entry.hf.setCellContents({ sheet: hfSheetId, row: 0, col }, this.toHyperFormulaContent(sheet, cell, 1, col + 1));
       }
     }
 
@@ -622,10 +4498,10 @@ export class ExcelClient {
     for (let rowIdx = 0; rowIdx < dataRows.length; rowIdx++) {
       const rowData = dataRows[rowIdx];
       for (let col = 0; col < rowData.length; col++) {
-        const cellValue = this.parseMarkdownCellValue(rowData[col]);
-        sheet.getCell(rowIdx + 2, col + 1).value = cellValue;
+        const cell = sheet.getCell(rowIdx + 2, col + 1);
+        cell.value = this.parseCellText(rowData[col]);
         if (hfSheetId !== undefined) {
-          entry.hf.setCellContents({ sheet: hfSheetId, row: rowIdx + 1, col }, cellValue as RawCellContent);
+          entry.hf.setCellContents({ sheet: hfSheetId, row: rowIdx + 1, col }, this.toHyperFormulaContent(sheet, cell, rowIdx + 2, col + 1));
         }
       }
     }
@@ -647,7 +4523,7 @@ export class ExcelClient {
       .map(cell => cell.trim());
   }
 
-  private parseMarkdownCellValue(value: string): string | number | boolean | null {
+  private parseCellText(value: string): string | number | boolean | null {
     const trimmed = value.trim();
 
     // Empty or null
@@ -669,8 +4545,545 @@ export class ExcelClient {
     return trimmed;
   }
 
+  // CSV Import and Export
+
+  /**
+   * Import CSV or TSV text into a sheet, creating the workbook or sheet when
+   * needed. Files are read as a stream and written in batches, and
+   * HyperFormula evaluates once at the end.
+   */
+  async importCsv(
+    options: CsvImportOptions
+  ): Promise<{ workbookId: string; sheet: string; range: string; rowCount: number; columnCount: number }> {
+    if ((options.path === undefined) === (options.content === undefined)) {
+      throw new Error("Specify either a file path or CSV content");
+    }
+    const delimiter = options.delimiter ?? (options.path && /\.(tsv|tab)$/i.test(options.path) ? "\t" : ",");
+    const quote = options.quote ?? '"';
+    const header = options.header ?? true;
+    const inferTypes = options.inferTypes ?? true;
+    const formulas = options.formulas ?? false;
+
+    const start = this.parseCellReference(options.startCell ?? "A1");
+
+    const workbookId = options.workbookId ?? this.createWorkbook();
+    const entry = this.getWorkbookEntry(workbookId);
+    const history = { undo: [...entry.history.undo], redo: [...entry.history.redo] };
+    try {
+      const sheetName = options.sheet || "Imported";
+      if (options.workbookId) {
+        this.recordChange(entry, `Import CSV to "${sheetName}"`);
+      }
+      let sheet = entry.workbook.getWorksheet(sheetName);
+      if (!sheet) {
+        sheet = entry.workbook.addWorksheet(sheetName);
+        entry.hf.addSheet(sheetName);
+      }
+      const target = sheet;
+      const hfSheetId = entry.hf.getSheetId(sheet.name)!;
+
+      let rowCount = 0;
+      let columnCount = 0;
+      let written = 0;
+      let batch: string[][] = [];
+      const flush = () => {
+        const hfValues: RawCellContent[][] = batch.map((fields, index) => {
+          const row = start.row + written + index;
+          return fields.map((field, offset) => {
+            const cell = target.getCell(row, start.col + offset);
+            const value = inferTypes && !(header && row === start.row) ? this.parseCellText(field) : field;
+            if (typeof value === "string" && value.startsWith("=") && formulas) {
+              cell.value = { formula: value.substring(1) };
+              return `=${this.resolveStructuredReferences(entry.workbook, value.substring(1), target.name, row, start.col + offset)}`;
+            }
+            // Inference trims values, but text keeps its spacing
+            cell.value = typeof value === "string" ? field : value;
+            return this.toHyperFormulaContent(target, cell, row, start.col + offset);
+          });
+        });
+        entry.hf.setCellContents({ sheet: hfSheetId, row: start.row + written - 1, col: start.col - 1 }, hfValues);
+        written += batch.length;
+        batch = [];
+      };
+
+      const parser = createCsvParser({ delimiter, quote }, fields => {
+        batch.push(fields);
+        rowCount++;
+        columnCount = Math.max(columnCount, fields.length);
+        if (batch.length >= CSV_BATCH_ROWS) flush();
+      });
+
+      entry.hf.suspendEvaluation();
+      try {
+        if (options.path !== undefined) {
+          let first = true;
+          for await (const chunk of createReadStream(options.path, { encoding: options.encoding ?? "utf8" })) {
+            parser.push(first ? (chunk as string).replace(/^\uFEFF/, "") : (chunk as string));
+            first = false;
+          }
+        } else {
+          parser.push(options.content!.replace(/^\uFEFF/, ""));
+        }
+        parser.end();
+        flush();
+      } finally {
+        entry.hf.resumeEvaluation();
+      }
+
+      const end = { row: start.row + Math.max(rowCount, 1) - 1, col: start.col + Math.max(columnCount, 1) - 1 };
+      return { workbookId, sheet: sheet.name, range: this.formatRangeReference(start, end), rowCount, columnCount };
+    } catch (error) {
+      // A workbook created for the import is closed again; an existing one is put back as it was
+      if (options.workbookId) {
+        this.rollbackChange(entry, history);
+      } else {
+        this.closeWorkbook(workbookId);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Export a sheet or range as CSV, with calculated values by default or
+   * formulas as =text. Written to a file as a stream, or returned as text.
+   */
+  async exportCsv(
+    workbookId: string,
+    sheetIdentifier: string | number,
+    options: CsvExportOptions = {}
+  ): Promise<{ path?: string; csv?: string; rowCount: number; columnCount: number }> {
+    const entry = this.getWorkbookEntry(workbookId);
+    const sheet = this.getSheet(entry.workbook, sheetIdentifier);
+    const hfSheetId = entry.hf.getSheetId(sheet.name);
+    const csvOptions = {
+      delimiter: options.delimiter ?? (options.path && /\.(tsv|tab)$/i.test(options.path) ? "\t" : ","),
+      quote: options.quote ?? '"',
+    };
+
+    const { start, end } = options.range
+      ? this.parseRangeReference(options.range)
+      : {
+          start: { row: sheet.dimensions.top, col: sheet.dimensions.left },
+          end: { row: sheet.dimensions.bottom, col: sheet.dimensions.right },
+        };
+    const rowCount = sheet.actualRowCount === 0 && !options.range ? 0 : end.row - start.row + 1;
+    const columnCount = rowCount === 0 ? 0 : end.col - start.col + 1;
+
+    const lineAt = (row: number): string => {
+      const fields: string[] = [];
+      for (let col = start.col; col <= end.col; col++) {
+        const cell = sheet.findCell(row, col);
+        if (options.formulas && cell?.formula) {
+          fields.push(`=${cell.formula}`);
+        } else if (cell?.value instanceof Date) {
+          fields.push(this.toIsoDate(cell.value));
+        } else {
+          const value = hfSheetId !== undefined ? entry.hf.getCellValue({ sheet: hfSheetId, row: row - 1, col: col - 1 }) : cell?.value;
+          fields.push(this.formatCsvValue(value));
+        }
+      }
+      return formatCsvRow(fields, csvOptions) + "\n";
+    };
+
+    if (options.path === undefined) {
+      const lines: string[] = [];
+      for (let row = start.row; row < start.row + rowCount; row++) lines.push(lineAt(row));
+      return { csv: lines.join(""), rowCount, columnCount };
+    }
+
+    const stream = createWriteStream(options.path, { encoding: options.encoding ?? "utf8" });
+    for (let row = start.row; row < start.row + rowCount; row++) {
+      if (!stream.write(lineAt(row))) await once(stream, "drain");
+    }
+    stream.end();
+    await finished(stream);
+    return { path: path.resolve(options.path), rowCount, columnCount };
+  }
+
+  private formatCsvValue(value: unknown): string {
+    if (value === null || value === undefined) return "";
+    if (value instanceof DetailedCellError) return value.value;
+    if (typeof value === "boolean") return value ? "TRUE" : "FALSE";
+    if (typeof value === "object" && "richText" in value) {
+      return (value as ExcelJS.CellRichTextValue).richText.map(run => run.text).join("");
+    }
+    return String(value);
+  }
+
+  // JSON Import
+
+  /**
+   * Write an array of objects into a sheet, one row per record. Nested
+   * objects become dotted keys (customer.name), ISO date strings become
+   * dates, and strings starting with = become formulas as in write_range.
+   */
+  importJson(
+    options: JsonImportOptions
+  ): { workbookId: string; sheet: string; range: string; rowCount: number; columnCount: number; addedColumns: string[] } {
+    if (!Array.isArray(options.records)) {
+      throw new Error("records must be an array of objects");
+    }
+    const arrays = options.arrays ?? "join";
+    const separator = options.arraySeparator ?? ", ";
+    const rows = options.records.flatMap(record => this.flattenJsonRecord(record, arrays, separator));
+
+    const keys = options.columns ?? [...new Set(rows.flatMap(row => Object.keys(row)))];
+    const headerFor = (key: string) => options.headers?.[key] ?? key;
+    const formulas = options.formulas ?? false;
+    const startCell = this.parseCellReference(options.startCell ?? "A1");
+
+    const workbookId = options.workbookId ?? this.createWorkbook();
+    const entry = this.getWorkbookEntry(workbookId);
+    const history = { undo: [...entry.history.undo], redo: [...entry.history.redo] };
+    try {
+      const sheetName = options.sheet || "Imported";
+      if (options.workbookId) {
+        this.recordChange(entry, `Import JSON to "${sheetName}"`);
+      }
+      let sheet = entry.workbook.getWorksheet(sheetName);
+      if (!sheet) {
+        sheet = entry.workbook.addWorksheet(sheetName);
+        entry.hf.addSheet(sheetName);
+      }
+      const hfSheetId = entry.hf.getSheetId(sheet.name)!;
+
+      // Where each key goes, and the header row to write when not appending
+      let start: { row: number; col: number };
+      const columnFor = new Map<string, number>();
+      const addedColumns: string[] = [];
+      const appending = Boolean(options.append) && sheet.actualRowCount > 0;
+      if (appending) {
+        const existing = this.listColumns(workbookId, sheet.name);
+        let nextColumn = Math.max(0, ...existing.map(column => column.index)) + 1;
+        for (const key of keys) {
+          const header = headerFor(key);
+          const match = existing.find(column => column.header?.trim().toLowerCase() === header.trim().toLowerCase());
+          if (match) {
+            columnFor.set(key, match.index);
+          } else {
+            const cell = sheet.getCell(1, nextColumn);
+            cell.value = header;
+            entry.hf.setCellContents({ sheet: hfSheetId, row: 0, col: nextColumn - 1 }, this.toHyperFormulaContent(sheet, cell, 1, nextColumn));
+            addedColumns.push(header);
+            columnFor.set(key, nextColumn++);
+          }
+        }
+        start = { row: sheet.lastRow!.number + 1, col: 1 };
+      } else {
+        start = startCell;
+        const headerRow = keys.map((key, index) => {
+          const cell = sheet!.getCell(start.row, start.col + index);
+          cell.value = headerFor(key);
+          columnFor.set(key, start.col + index);
+          return this.toHyperFormulaContent(sheet!, cell, start.row, start.col + index);
+        });
+        entry.hf.setCellContents({ sheet: hfSheetId, row: start.row - 1, col: start.col - 1 }, [headerRow]);
+        start = { row: start.row + 1, col: start.col };
+      }
+
+      const firstColumn = Math.min(start.col, ...columnFor.values());
+      const lastColumn = Math.max(firstColumn, ...columnFor.values());
+      entry.hf.suspendEvaluation();
+      try {
+        const hfValues: RawCellContent[][] = rows.map((row, offset) => {
+          const rowNumber = start.row + offset;
+          const hfRow: RawCellContent[] = new Array(lastColumn - firstColumn + 1).fill(null);
+          for (const key of keys) {
+            const col = columnFor.get(key)!;
+            const cell = sheet!.getCell(rowNumber, col);
+            const value = this.toJsonCellValue(row[key]);
+            if (typeof value === "string" && value.startsWith("=") && formulas) {
+              cell.value = { formula: value.substring(1) };
+              hfRow[col - firstColumn] = `=${this.resolveStructuredReferences(entry.workbook, value.substring(1), sheet!.name, rowNumber, col)}`;
+            } else if (value instanceof Date) {
+              this.writeDate(cell, value);
+              hfRow[col - firstColumn] = this.dateToSerial(value, entry.workbook.properties.date1904);
+            } else {
+              cell.value = value;
+              hfRow[col - firstColumn] = this.toHyperFormulaContent(sheet!, cell, rowNumber, col);
+            }
+          }
+          return hfRow;
+        });
+        if (hfValues.length > 0) {
+          entry.hf.setCellContents({ sheet: hfSheetId, row: start.row - 1, col: firstColumn - 1 }, hfValues);
+        }
+      } finally {
+        entry.hf.resumeEvaluation();
+      }
+
+      const firstRow = appending ? start.row : start.row - 1;
+      const end = { row: Math.max(firstRow, start.row + rows.length - 1), col: lastColumn };
+      return {
+        workbookId,
+        sheet: sheet.name,
+        range: this.formatRangeReference({ row: firstRow, col: firstColumn }, end),
+        rowCount: rows.length,
+        columnCount: keys.length,
+        addedColumns,
+      };
+    } catch (error) {
+      // A workbook created for the import is closed again; an existing one is put back as it was
+      if (options.workbookId) {
+        this.rollbackChange(entry, history);
+      } else {
+        this.closeWorkbook(workbookId);
+      }
+      throw error;
+    }
+  }
+
+  // Flatten nested objects into dotted keys; exploded arrays give one row per element
+  private flattenJsonRecord(
+    record: Record<string, unknown>,
+    arrays: "join" | "explode" | "json",
+    separator: string
+  ): Array<Record<string, unknown>> {
+    const exploded = new Map<string, unknown[]>();
+    const flatten = (value: unknown, key: string, row: Record<string, unknown>, mode: typeof arrays) => {
+      if (Array.isArray(value)) {
+        if (mode === "explode") {
+          exploded.set(key, value);
+        } else if (mode === "json") {
+          row[key] = JSON.stringify(value);
+        } else if (value.length === 0) {
+          row[key] = null;
+        } else {
+          row[key] = value.map(item => (item !== null && typeof item === "object" ? JSON.stringify(item) : String(item ?? ""))).join(separator);
+        }
+      } else if (value !== null && typeof value === "object" && !(value instanceof Date)) {
+        const entries = Object.entries(value);
+        if (entries.length === 0) row[key] = null;
+        for (const [name, child] of entries) flatten(child, key ? `${key}.${name}` : name, row, mode);
+      } else {
+        row[key] = value;
+      }
+    };
+
+    const base: Record<string, unknown> = {};
+    flatten(record, "", base, arrays);
+    if (exploded.size === 0) return [base];
+
+    // Arrays in the same record are exploded side by side, element by element
+    const length = Math.max(1, ...[...exploded.values()].map(values => values.length));
+    return Array.from({ length }, (_, index) => {
+      const row = { ...base };
+      for (const [key, values] of exploded) {
+        if (values.length === 0) row[key] = null;
+        else if (index < values.length) flatten(values[index], key, row, "join");
+      }
+      return row;
+    });
+  }
+
+  private toJsonCellValue(value: unknown): string | number | boolean | Date | null {
+    if (value === null || value === undefined) return null;
+    if (typeof value === "number" || typeof value === "boolean" || value instanceof Date) return value;
+    const text = String(value);
+    return this.parseIsoDate(text) ?? text;
+  }
+
+  // Range Export
+
+  /**
+   * Export a range for people to read. Markdown and HTML show each cell as
+   * displayed, with its number format applied; HTML also keeps basic styles
+   * and merged cells. json-records returns calculated values keyed by the
+   * header row.
+   */
+  exportRange(
+    workbookId: string,
+    sheetIdentifier: string | number,
+    format: "markdown" | "html" | "json-records",
+    range?: string,
+    options: { header?: boolean } = {}
+  ): string | Array<Record<string, unknown>> {
+    const entry = this.getWorkbookEntry(workbookId);
+    const sheet = this.getSheet(entry.workbook, sheetIdentifier);
+    if (format === "json-records") {
+      return this.readRecords(entry, sheet, range).records;
+    }
+
+    const header = options.header ?? true;
+    const { start, end } = range
+      ? this.parseRangeReference(range)
+      : {
+          start: { row: sheet.dimensions.top, col: sheet.dimensions.left },
+          end: { row: sheet.dimensions.bottom, col: sheet.dimensions.right },
+        };
+    // findCell leaves empty cells undefined, so exporting doesn't create them and grow the sheet
+    const rows: Array<Array<ExcelJS.Cell | undefined>> = [];
+    for (let row = start.row; row <= end.row; row++) {
+      const cells: Array<ExcelJS.Cell | undefined> = [];
+      for (let col = start.col; col <= end.col; col++) cells.push(sheet.findCell(row, col));
+      rows.push(cells);
+    }
+
+    return format === "markdown"
+      ? this.toMarkdownTable(entry, rows, start.col, header)
+      : this.toHtmlTable(entry, sheet, rows, { start, end }, header);
+  }
+
+  private toMarkdownTable(entry: WorkbookEntry, rows: Array<Array<ExcelJS.Cell | undefined>>, firstCol: number, header: boolean): string {
+    const text = (cell: ExcelJS.Cell | undefined) =>
+      !cell || cell.type === ExcelJS.ValueType.Merge
+        ? ""
+        : this.getDisplayText(entry, cell).replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+    const headings = header ? rows[0].map(text) : rows[0].map((_, index) => this.columnIndexToLetter(firstCol + index));
+    const body = header ? rows.slice(1) : rows;
+
+    // Right-align columns that hold only numbers, as Excel does by default
+    const alignments = headings.map((_, index) => {
+      const values = body.map(row => (row[index] ? this.getDisplayValue(entry, row[index]) : null)).filter(value => value !== null);
+      return values.length > 0 && values.every(value => typeof value === "number") ? "---:" : "---";
+    });
+
+    return [headings, alignments, ...body.map(row => row.map(text))].map(cells => `| ${cells.join(" | ")} |`).join("\n");
+  }
+
+  private toHtmlTable(
+    entry: WorkbookEntry,
+    sheet: ExcelJS.Worksheet,
+    rows: Array<Array<ExcelJS.Cell | undefined>>,
+    bounds: { start: { row: number; col: number }; end: { row: number; col: number } },
+    header: boolean
+  ): string {
+    const { start: first, end: last } = bounds;
+
+    // Merges are clipped to the exported range
+    const spans = new Map<string, { rowspan: number; colspan: number }>();
+    for (const merge of sheet.model.merges ?? []) {
+      const mergeBounds = this.parseRangeReference(merge);
+      const top = Math.max(mergeBounds.start.row, first.row);
+      const left = Math.max(mergeBounds.start.col, first.col);
+      const bottom = Math.min(mergeBounds.end.row, last.row);
+      const right = Math.min(mergeBounds.end.col, last.col);
+      if (top > bottom || left > right) continue;
+      spans.set(`${this.columnIndexToLetter(left)}${top}`, { rowspan: bottom - top + 1, colspan: right - left + 1 });
+    }
+    const covered = new Set<string>();
+    for (const [address, span] of spans) {
+      const { row, col } = this.parseCellReference(address);
+      for (let r = row; r < row + span.rowspan; r++) {
+        for (let c = col; c < col + span.colspan; c++) {
+          if (r !== row || c !== col) covered.add(`${this.columnIndexToLetter(c)}${r}`);
+        }
+      }
+    }
+
+    const lines = ["<table>"];
+    rows.forEach((cells, index) => {
+      const tag = header && index === 0 ? "th" : "td";
+      const html = cells
+        .map((cell, offset) => {
+          const address = `${this.columnIndexToLetter(first.col + offset)}${first.row + index}`;
+          if (covered.has(address)) return "";
+
+          const span = spans.get(address);
+          const attributes = [
+            span && span.rowspan > 1 ? ` rowspan="${span.rowspan}"` : "",
+            span && span.colspan > 1 ? ` colspan="${span.colspan}"` : "",
+          ];
+          const style = cell ? this.toCssStyle(cell.style, typeof this.getDisplayValue(entry, cell) === "number") : "";
+          if (style) attributes.push(` style="${style}"`);
+          const text = cell ? this.escapeHtml(this.getDisplayText(entry, cell)).replace(/\r?\n/g, "<br>") : "";
+          return `<${tag}${attributes.join("")}>${text}</${tag}>`;
+        })
+        .join("");
+      lines.push(`  <tr>${html}</tr>`);
+    });
+    lines.push("</table>");
+    return lines.join("\n");
+  }
+
+  private toCssStyle(style: Partial<ExcelJS.Style>, isNumber: boolean): string {
+    const spec = this.toStyleSpec(style);
+    const css: string[] = [];
+    if (spec.font?.bold) css.push("font-weight: bold");
+    if (spec.font?.italic) css.push("font-style: italic");
+    const decorations = [spec.font?.underline && "underline", spec.font?.strike && "line-through"].filter(Boolean);
+    if (decorations.length > 0) css.push(`text-decoration: ${decorations.join(" ")}`);
+    if (spec.font?.color) css.push(`color: ${spec.font.color}`);
+    if (spec.fill) css.push(`background-color: ${spec.fill.color}`);
+
+    const horizontal = spec.alignment?.horizontal ?? (isNumber ? "right" : undefined);
+    if (horizontal) {
+      const textAlign = { left: "left", center: "center", right: "right", fill: "left", justify: "justify", centerContinuous: "center", distributed: "justify" }[horizontal];
+      css.push(`text-align: ${textAlign}`);
+    }
+    if (spec.alignment?.vertical) {
+      css.push(`vertical-align: ${spec.alignment.vertical === "middle" ? "middle" : spec.alignment.vertical === "top" ? "top" : "bottom"}`);
+    }
+    for (const edge of ["top", "bottom", "left", "right"] as const) {
+      const border = spec.border?.[edge];
+      if (!border) continue;
+      const width = /thick/i.test(border.style) ? 3 : /medium/i.test(border.style) ? 2 : 1;
+      const line = border.style === "double" ? "double" : /dash/i.test(border.style) ? "dashed" : border.style === "dotted" || border.style === "hair" ? "dotted" : "solid";
+      css.push(`border-${edge}: ${width}px ${line} ${border.color ?? "#000000"}`);
+    }
+    return css.join("; ");
+  }
+
+  private escapeHtml(text: string): string {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+  }
+
+  // The calculated value for formulas and the stored value otherwise, with errors as their text
+  private getDisplayValue(entry: WorkbookEntry, cell: ExcelJS.Cell): unknown {
+    if (cell.formula) {
+      const hfSheetId = entry.hf.getSheetId(cell.worksheet.name);
+      const { row, col } = cell.fullAddress;
+      const value = hfSheetId !== undefined ? entry.hf.getCellValue({ sheet: hfSheetId, row: row - 1, col: col - 1 }) : cell.result;
+      return this.toTraceValue(value);
+    }
+
+    const value = cell.value;
+    if (value && typeof value === "object" && !(value instanceof Date)) {
+      if ("richText" in value) return value.richText.map(run => run.text).join("");
+      if ("text" in value) return value.text;
+      if ("error" in value) return value.error;
+    }
+    return value ?? null;
+  }
+
+  // What Excel shows in the cell, with its number format applied
+  private getDisplayText(entry: WorkbookEntry, cell: ExcelJS.Cell): string {
+    const value = this.getDisplayValue(entry, cell);
+    if (value === null || value === undefined) return "";
+    if (typeof value === "boolean") return value ? "TRUE" : "FALSE";
+    const date1904 = entry.workbook.properties.date1904;
+    if (value instanceof Date) return formatNumber(this.dateToSerial(value, date1904), cell.numFmt || "yyyy-mm-dd", date1904);
+    if (typeof value === "number") return formatNumber(value, cell.numFmt, date1904);
+    return formatText(String(value), cell.numFmt);
+  }
+
   // Helper Methods
 
+  private buildHyperFormula(workbook: ExcelJS.Workbook, names: DefinedNameEntry[]): HyperFormula {
+    // Serial numbers count from 1904 in workbooks that use the 1904 date system
+    const hf = HyperFormula.buildEmpty(
+      workbook.properties.date1904 ? { ...hfConfig, nullDate: { year: 1904, month: 1, day: 1 } } : hfConfig
+    );
+
+    // Add every sheet first so cross-sheet references and names resolve
+    for (const sheet of workbook.worksheets) {
+      hf.addSheet(sheet.name);
+    }
+
+    for (const name of names) {
+      try {
+        hf.addNamedExpression(name.name, `=${name.refersTo}`, name.scope !== undefined ? hf.getSheetId(name.scope) : undefined);
+      } catch {
+        // Names HyperFormula can't parse (e.g. external references) are still written back on save
+      }
+    }
+
+    for (const sheet of workbook.worksheets) {
+      this.syncSheetToHyperFormula(sheet, hf, sheet.name);
+    }
+    return hf;
+  }
+
   private syncSheetToHyperFormula(sheet: ExcelJS.Worksheet, hf: HyperFormula, sheetName: string): void {
     const hfSheetId = hf.getSheetId(sheetName);
     if (hfSheetId === undefined) return;
@@ -689,22 +5102,7 @@ export class ExcelClient {
           rowData.push(null);
         }
 
-        if (cell.formula) {
-          rowData.push(`=${cell.formula}`);
-        } else {
-          // Convert ExcelJS cell value to HyperFormula compatible type
-          const value = cell.value;
-          if (value === null || value === undefined) {
-            rowData.push(null);
-          } else if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
-            rowData.push(value);
-          } else if (value instanceof Date) {
-            rowData.push(value.getTime());
-          } else {
-            // For complex objects, convert to string
-            rowData.push(String(value));
-          }
-        }
+        rowData.push(this.toHyperFormulaContent(sheet, cell, rowNumber, colNumber));
       });
 
       data[rowNumber - 1] = rowData;
@@ -715,6 +5113,54 @@ export class ExcelClient {
     }
   }
 
+  private toHyperFormulaContent(sheet: ExcelJS.Worksheet, cell: ExcelJS.Cell, row: number, col: number): RawCellContent {
+    if (cell.formula) {
+      return `=${this.resolveStructuredReferences(sheet.workbook, cell.formula, sheet.name, row, col)}`;
+    }
+
+    // Convert ExcelJS cell value to HyperFormula compatible type
+    const value = cell.value;
+    if (value === null || value === undefined) {
+      return null;
+    } else if (typeof value === "string") {
+      // Text stays text: a leading apostrophe keeps HyperFormula from evaluating "=..." or dropping a "'"
+      return value.startsWith("=") || value.startsWith("'") ? `'${value}` : value;
+    } else if (typeof value === "number" || typeof value === "boolean") {
+      return value;
+    } else if (value instanceof Date) {
+      return this.dateToSerial(value, sheet.workbook.properties.date1904);
+    } else {
+      // For complex objects, convert to string
+      return String(value);
+    }
+  }
+
+  // Write HyperFormula's formula text back to ExcelJS after it rewrote references
+  private syncFormulasFromHyperFormula(entry: WorkbookEntry): void {
+    for (const sheet of entry.workbook.worksheets) {
+      const hfSheetId = entry.hf.getSheetId(sheet.name);
+      if (hfSheetId === undefined) continue;
+
+      sheet.eachRow(row => {
+        row.eachCell(cell => {
+          if (cell.type !== ExcelJS.ValueType.Formula) return;
+          const { row: rowNumber, col } = cell.fullAddress;
+
+          // Structured references are relative to their table and stay as written
+          const value = cell.value as ExcelJS.CellFormulaValue | ExcelJS.CellSharedFormulaValue;
+          if ("formula" in value && value.formula) {
+            if (this.resolveStructuredReferences(entry.workbook, value.formula, sheet.name, rowNumber, col) !== value.formula) return;
+          }
+
+          const formula = entry.hf.getCellFormula({ sheet: hfSheetId, row: rowNumber - 1, col: col - 1 });
+          if (formula !== undefined) {
+            cell.value = { formula: formula.substring(1) };
+          }
+        });
+      });
+    }
+  }
+
   private syncCalculatedValuesToWorkbook(entry: WorkbookEntry): void {
     // For cells with formulas, ensure the cached result is updated
     for (const sheet of entry.workbook.worksheets) {
@@ -765,9 +5211,191 @@ export class ExcelClient {
     return sheet;
   }
 
+  private formatRangeReference(start: { row: number; col: number }, end: { row: number; col: number }): string {
+    const first = `${this.columnIndexToLetter(start.col)}${start.row}`;
+    const last = `${this.columnIndexToLetter(end.col)}${end.row}`;
+    return first === last ? first : `${first}:${last}`;
+  }
+
+  // Days since 1899-12-30 (or 1904-01-01), the serial number Excel stores for a date
+  private dateToSerial(date: Date, date1904: boolean = false): number {
+    return (date.getTime() - (date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30))) / 86400000;
+  }
+
+  private serialToDate(serial: number, date1904: boolean = false): Date {
+    // Rounded to the second: HyperFormula reports ten significant digits, under a second's precision for dates
+    return new Date((date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30)) + Math.round(serial * 86400) * 1000);
+  }
+
+  // Dates as ISO text, without a time at midnight. Excel dates have no zone, so none is shown.
+  private toIsoDate(date: Date): string {
+    const iso = date.toISOString().replace(/(\.000)?Z$/, "");
+    return iso.endsWith("T00:00:00") ? iso.substring(0, 10) : iso;
+  }
+
+  // An ISO 8601 date or date-time, read as written when it has no zone
+  private parseIsoDate(text: string): Date | undefined {
+    const match = ISO_DATE.exec(text);
+    if (!match) return undefined;
+    const iso = match[4] === undefined ? `${text}T00:00:00Z` : `${text.replace(" ", "T")}${match[7] ? "" : "Z"}`;
+    const date = new Date(iso);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+
+  // Store a date, giving the cell a date format unless it already has one
+  private writeDate(cell: ExcelJS.Cell, date: Date): void {
+    cell.value = date;
+    if (!isDateFormat(cell.numFmt)) {
+      cell.numFmt = date.getTime() % 86400000 === 0 ? "yyyy-mm-dd" : "yyyy-mm-dd hh:mm:ss";
+    }
+  }
+
+  // Values of cells formatted as dates are returned as ISO text
+  private toReadValue(workbook: ExcelJS.Workbook, cell: ExcelJS.Cell | undefined, value: unknown): unknown {
+    // Stored dates are exact, where the engine's serial is rounded
+    if (cell?.value instanceof Date) return this.toIsoDate(cell.value);
+    if (value instanceof Date) return this.toIsoDate(value);
+    if (typeof value === "number" && cell && isDateFormat(cell.numFmt)) {
+      return this.toIsoDate(this.serialToDate(value, workbook.properties.date1904));
+    }
+    return value;
+  }
+
+  /**
+   * Move the relative A1 references in a formula by the given offset, the way
+   * Excel adjusts a formula copied to another cell. Absolute ($) parts, string
+   * literals and quoted sheet names are left alone.
+   */
+  private shiftFormula(formula: string, rowOffset: number, colOffset: number): string {
+    if (rowOffset === 0 && colOffset === 0) return formula;
+
+    return formula
+      .split(/("(?:[^"]|"")*"|'(?:[^']|'')*')/)
+      .map((part, index) => {
+        if (index % 2 === 1) return part;
+        return part.replace(
+          /(?<![A-Za-z0-9_.])(\$?)([A-Za-z]{1,3})(\$?)(\d+)(?![A-Za-z0-9_.(])/g,
+          (match, colAbs: string, colStr: string, rowAbs: string, rowStr: string) => {
+            const col = colAbs ? this.parseCellReference(`${colStr}1`).col : this.parseCellReference(`${colStr}1`).col + colOffset;
+            const row = rowAbs ? Number(rowStr) : Number(rowStr) + rowOffset;
+            if (col < 1 || row < 1) return "#REF!";
+            return `${colAbs}${this.columnIndexToLetter(col)}${rowAbs}${row}`;
+          }
+        );
+      })
+      .join("");
+  }
+
+  /**
+   * Adjust the references a formula makes to a sheet after inserting (delta > 0)
+   * or deleting (delta < 0) lines at `at`, as HyperFormula does for cell
+   * formulas: references past the change move, ranges grow or shrink, and
+   * references to deleted cells become #REF!. Unqualified references are to
+   * the sheet when `onSheet` is set.
+   */
+  private spliceFormulaReferences(
+    formula: string,
+    sheetName: string,
+    onSheet: boolean,
+    axis: "rows" | "columns",
+    at: number,
+    delta: number
+  ): string {
+    const reference =
+      /(?<![A-Za-z0-9_.$'!])((?:'(?:[^']|'')+'|[A-Za-z0-9_.]+)!)?(?:(\$?[A-Za-z]{1,3}\$?\d+)(?::(\$?[A-Za-z]{1,3}\$?\d+))?|(\$?[A-Za-z]{1,3}):(\$?[A-Za-z]{1,3})|(\$?\d+):(\$?\d+))(?![A-Za-z0-9_.(!])/g;
+    const cellPattern = /^(\$?)([A-Za-z]{1,3})(\$?)(\d+)$/;
+
+    const splice = (match: string, prefix: string | undefined, ...parts: Array<string | undefined>): string => {
+      const target = prefix
+        ? prefix.startsWith("'")
+          ? prefix.slice(1, -2).replace(/''/g, "'")
+          : prefix.slice(0, -1)
+        : onSheet
+          ? sheetName
+          : undefined;
+      if (target?.toLowerCase() !== sheetName.toLowerCase()) return match;
+
+      const [firstCell, lastCell, firstColumn, lastColumn, firstRow, lastRow] = parts;
+      if (firstCell) {
+        // Cells and cell ranges: the line numbers along the axis move
+        const ends = [firstCell, lastCell ?? firstCell].map(cell => {
+          const [, colAbs, colStr, rowAbs, rowStr] = cell.match(cellPattern)!;
+          return { colAbs, col: this.parseCellReference(`${colStr}1`).col, rowAbs, row: Number(rowStr) };
+        });
+        const key = axis === "rows" ? "row" : "col";
+        const span = this.adjustSpan(Math.min(ends[0][key], ends[1][key]), Math.max(ends[0][key], ends[1][key]), at, delta);
+        if (!span) return "#REF!";
+        const [first, last] = ends[0][key] <= ends[1][key] ? ends : [ends[1], ends[0]];
+        first[key] = span[0];
+        last[key] = span[1];
+        const format = (end: (typeof ends)[number]) => `${end.colAbs}${this.columnIndexToLetter(end.col)}${end.rowAbs}${end.row}`;
+        return `${prefix ?? ""}${format(ends[0])}${lastCell ? `:${format(ends[1])}` : ""}`;
+      }
+
+      // Whole columns only change when columns do, whole rows when rows do
+      const wholeColumns = firstColumn !== undefined;
+      if (wholeColumns !== (axis === "columns")) return match;
+      const ends = (wholeColumns ? [firstColumn!, lastColumn!] : [firstRow!, lastRow!]).map(end => {
+        const absolute = end.startsWith("$") ? "$" : "";
+        const text = end.slice(absolute.length);
+        return { absolute, line: wholeColumns ? this.parseCellReference(`${text}1`).col : Number(text) };
+      });
+      const span = this.adjustSpan(Math.min(ends[0].line, ends[1].line), Math.max(ends[0].line, ends[1].line), at, delta);
+      if (!span) return "#REF!";
+      const [first, last] = ends[0].line <= ends[1].line ? ends : [ends[1], ends[0]];
+      first.line = span[0];
+      last.line = span[1];
+      const format = (end: (typeof ends)[number]) => `${end.absolute}${wholeColumns ? this.columnIndexToLetter(end.line) : end.line}`;
+      return `${prefix ?? ""}${format(ends[0])}:${format(ends[1])}`;
+    };
+
+    return formula
+      .split(/("(?:[^"]|"")*")/)
+      .map((part, index) => (index % 2 === 1 ? part : part.replace(reference, splice)))
+      .join("");
+  }
+
+  private quoteSheetName(name: string): string {
+    return `'${name.replace(/'/g, "''")}'`;
+  }
+
+  // Replace references qualified with the given sheet (e.g. 'Old Sheet'!A1:B2) by #REF!
+  private dropSheetReferences(formula: string, sheetName: string): string {
+    const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const pattern = new RegExp(
+      `(?<![A-Za-z0-9_.])(?:${escape(this.quoteSheetName(sheetName))}|${escape(sheetName)})![A-Za-z0-9_.$]+(?::[A-Za-z0-9_.$]+)?`,
+      "gi"
+    );
+    return formula
+      .split(/("(?:[^"]|"")*")/)
+      .map((part, index) => (index % 2 === 1 ? part : part.replace(pattern, "#REF!")))
+      .join("");
+  }
+
+  // Point structured references and bare uses of a table name at another table
+  private renameTableReferences(formula: string, oldName: string, newName: string): string {
+    const escaped = oldName.replace(/[.\\]/g, "\\$&");
+    const pattern = new RegExp(`(?<![A-Za-z0-9_.\\\\])${escaped}(?![A-Za-z0-9_.\\\\(!])`, "gi");
+    return formula
+      .split(/("(?:[^"]|"")*"|'(?:[^']|'')*')/)
+      .map((part, index) => (index % 2 === 1 ? part : part.replace(pattern, newName)))
+      .join("");
+  }
+
+  private parseRangeReference(range: string): { start: { row: number; col: number }; end: { row: number; col: number } } {
+    const [startCell, endCell] = range.split(":");
+    const start = this.parseCellReference(startCell);
+    const end = endCell ? this.parseCellReference(endCell) : start;
+
+    return {
+      start: { row: Math.min(start.row, end.row), col: Math.min(start.col, end.col) },
+      end: { row: Math.max(start.row, end.row), col: Math.max(start.col, end.col) },
+    };
+  }
+
   private parseCellReference(ref: string): { row: number; col: number } {
     const match = ref.match(/^([A-Z]+)(\d+)$/i);
-    if (!match) {
+    if (!match || Number(match[2]) < 1) {
       throw new Error(`Invalid cell reference: ${ref}`);
     }
 
@@ -0,0 +1,250 @@
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import { createServer as createHttpServer, IncomingMessage, Server as HttpServer, ServerResponse } from "node:http";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+// Serves MCP over HTTP. Streamable HTTP clients use /mcp; older clients use
+// the SSE transport (GET /sse, then POST /messages?sessionId=...). Every
+// session gets its own server from createServer, so sessions never share
+// workbooks.
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  // Required as "Authorization: Bearer <token>" on every request when set
+  authToken?: string;
+  // Host names clients may reach the server by, besides localhost and the listening address
+  allowedHosts?: string[];
+}
+
+const MCP_PATH = "/mcp";
+const SSE_PATH = "/sse";
+const SSE_MESSAGES_PATH = "/messages";
+
+// Streamable HTTP sessions are closed after this long without an open request
+const SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+interface StreamableSession {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+  openRequests: number;
+  idleTimer?: NodeJS.Timeout;
+}
+
+// Listening on every interface says nothing about the names clients use
+const WILDCARD_HOSTS = ["0.0.0.0", "::", "[::]"];
+
+export async function startHttpServer(createServer: () => Server, options: HttpServerOptions): Promise<HttpServer> {
+  const streamableSessions = new Map<string, StreamableSession>();
+  const sseSessions = new Map<string, SSEServerTransport>();
+  const allowedHosts = new Set(
+    ["localhost", "127.0.0.1", "::1", ...(WILDCARD_HOSTS.includes(options.host) ? [] : [options.host]), ...(options.allowedHosts ?? [])]
+      .map(host => hostnameOf(host.includes(":") && !host.startsWith("[") ? `[${host}]` : host))
+      .filter(host => host !== undefined)
+  );
+
+  // Closing the server closes its transport, whose onclose forgets the session
+  const closeServer = (server: Server): void => {
+    server.close().catch(error => console.error("Error closing MCP session:", error));
+  };
+
+  // Restart the idle timer once the session's last open request, such as a notification stream, ends
+  const trackRequest = (session: StreamableSession, res: ServerResponse): void => {
+    clearTimeout(session.idleTimer);
+    session.openRequests++;
+    res.on("close", () => {
+      session.openRequests--;
+      if (session.openRequests === 0) {
+        session.idleTimer = setTimeout(() => closeServer(session.server), SESSION_IDLE_TIMEOUT_MS).unref();
+      }
+    });
+  };
+
+  const handleStreamable = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const sessionId = req.headers["mcp-session-id"];
+    const body = req.method === "POST" ? await readJsonBody(req, res) : undefined;
+    if (body === INVALID_BODY) return;
+
+    if (typeof sessionId === "string") {
+      const session = streamableSessions.get(sessionId);
+      if (!session) {
+        sendJsonRpcError(res, 404, -32001, "Session not found");
+        return;
+      }
+      trackRequest(session, res);
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, "Bad Request: no valid session ID provided");
+      return;
+    }
+
+    const server = createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        const session: StreamableSession = { server, transport, openRequests: 0 };
+        streamableSessions.set(id, session);
+        trackRequest(session, res);
+      },
+    });
+    transport.onclose = () => {
+      if (!transport.sessionId) return;
+      clearTimeout(streamableSessions.get(transport.sessionId)?.idleTimer);
+      streamableSessions.delete(transport.sessionId);
+    };
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+    if (!transport.sessionId) closeServer(server);
+  };
+
+  const handleSse = async (req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> => {
+    if (url.pathname === SSE_PATH) {
+      if (req.method !== "GET") {
+        sendStatus(res, 405, "Method Not Allowed");
+        return;
+      }
+      const server = createServer();
+      const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+      sseSessions.set(transport.sessionId, transport);
+      await server.connect(transport);
+      // After connect, so the transport has closed itself and close only releases the server
+      res.on("close", () => {
+        sseSessions.delete(transport.sessionId);
+        closeServer(server);
+      });
+      return;
+    }
+
+    if (req.method !== "POST") {
+      sendStatus(res, 405, "Method Not Allowed");
+      return;
+    }
+    const transport = sseSessions.get(url.searchParams.get("sessionId") ?? "");
+    if (!transport) {
+      sendStatus(res, 404, "Session not found");
+      return;
+    }
+    await transport.handlePostMessage(req, res);
+  };
+
+  const httpServer = createHttpServer(async (req, res) => {
+    try {
+      // A web page that rebinds its own domain to this address still sends that domain as the Host
+      if (!isAllowedHost(req, allowedHosts)) {
+        sendStatus(res, 403, "Forbidden: host not allowed");
+        return;
+      }
+      if (options.authToken && !isAuthorized(req, options.authToken)) {
+        res.setHeader("WWW-Authenticate", 'Bearer realm="excel-mcp"');
+        sendStatus(res, 401, "Unauthorized");
+        return;
+      }
+
+      const url = new URL(req.url ?? "/", "http://localhost");
+      if (url.pathname === MCP_PATH) {
+        await handleStreamable(req, res);
+      } else if (url.pathname === SSE_PATH || url.pathname === SSE_MESSAGES_PATH) {
+        await handleSse(req, res, url);
+      } else {
+        sendStatus(res, 404, "Not Found");
+      }
+    } catch (error) {
+      console.error("HTTP request error:", error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, "Internal server error");
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+  return httpServer;
+}
+
+// Lower-cased host name of a Host header, host or origin; IPv6 addresses keep their brackets
+function hostnameOf(value: string): string | undefined {
+  try {
+    return new URL(value.includes("://") ? value : `http://${value}`).hostname;
+  } catch {
+    return undefined;
+  }
+}
+
+// The Host header, and the Origin header browsers add, must name an allowed host
+function isAllowedHost(req: IncomingMessage, allowedHosts: Set<string>): boolean {
+  const host = hostnameOf(req.headers.host ?? "");
+  if (!host || !allowedHosts.has(host)) return false;
+
+  const origin = req.headers.origin;
+  if (origin === undefined) return true;
+  const originHost = hostnameOf(origin);
+  return originHost !== undefined && allowedHosts.has(originHost);
+}
+
+function isAuthorized(req: IncomingMessage, authToken: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? "");
+  if (!match) return false;
+  const given = Buffer.from(match[1].trim());
+  const expected = Buffer.from(authToken);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+const INVALID_BODY = Symbol("invalid body");
+
+// The limit the SDK applies to the message bodies it reads itself
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+// Parsed JSON body, or INVALID_BODY after answering with an error
+async function readJsonBody(req: IncomingMessage, res: ServerResponse): Promise<unknown> {
+  const body = await new Promise<Buffer | undefined>((resolve, reject) => {
+    if (Number(req.headers["content-length"]) > MAX_BODY_BYTES) {
+      resolve(undefined);
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        // Stop reading; the connection is closed once the error is sent
+        req.pause();
+        resolve(undefined);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+
+  if (!body) {
+    res.setHeader("Connection", "close");
+    sendJsonRpcError(res, 413, -32000, `Request body is larger than ${MAX_BODY_BYTES} bytes`);
+    return INVALID_BODY;
+  }
+  try {
+    return JSON.parse(body.toString("utf8"));
+  } catch {
+    sendJsonRpcError(res, 400, -32700, "Parse error: invalid JSON");
+    return INVALID_BODY;
+  }
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }));
+}
+
+function sendStatus(res: ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { "Content-Type": "text/plain" }).end(message);
+}
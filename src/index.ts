@@ -4,25 +4,78 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
-import { ExcelClient } from "./excel-client.js";
+import {
+  ConditionalFormatSpec,
+  CsvExportOptions,
+  CsvImportOptions,
+  DataValidationSpec,
+  ExcelClient,
+  FindOptions,
+  JsonImportOptions,
+  PivotTableSpec,
+  QuerySpec,
+  SortKey,
+  StyleSpec,
+  TableSpec,
+} from "./excel-client.js";
+import { startHttpServer } from "./http-server.js";
+import { getPrompt, PROMPTS } from "./prompts.js";
+import {
+  listSheetResources,
+  parseSheetResourceUri,
+  readSheetResource,
+  RESOURCE_TEMPLATES,
+} from "./resources.js";
 
-const server = new Server(
-  {
-    name: "excel-mcp",
-    version: "1.0.0",
-  },
-  {
-    capabilities: {
-      tools: {},
+const borderSchema = {
+  type: "object",
+  properties: {
+    style: {
+      type: "string",
+      enum: [
+        "thin", "dotted", "hair", "medium", "double", "thick", "dashed", "dashDot",
+        "dashDotDot", "slantDashDot", "mediumDashed", "mediumDashDotDot", "mediumDashDot",
+      ],
     },
-  }
-);
+    color: { type: "string", description: "Hex color (default black)" },
+  },
+  required: ["style"],
+};
+
+const fontSchema = {
+  type: "object",
+  properties: {
+    name: { type: "string", description: "Font name (e.g., 'Calibri')" },
+    size: { type: "number", description: "Font size in points" },
+    bold: { type: "boolean" },
+    italic: { type: "boolean" },
+    underline: { type: "boolean" },
+    strike: { type: "boolean" },
+    color: { type: "string", description: "Hex color (e.g., '#FF0000')" },
+  },
+  description: "Font settings",
+};
 
-const excelClient = new ExcelClient();
+const fillSchema = {
+  type: "object",
+  properties: {
+    color: { type: "string", description: "Hex background color (e.g., '#FFFF00')" },
+    pattern: { type: "string", description: "Fill pattern (default 'solid')" },
+  },
+  required: ["color"],
+  description: "Cell background fill",
+};
 
-server.setRequestHandler(ListToolsRequestSchema, async () => {
+async function listTools() {
   return {
     tools: [
       // Workbook Management
@@ -164,6 +217,54 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           required: ["workbookId", "sheet", "newName"],
         },
       },
+      {
+        name: "copy_sheet",
+        description: "Duplicate a sheet with its values, formulas, formatting and tables",
+        inputSchema: {
+          type: "object",
+          properties: {
+            workbookId: {
+              type: "string",
+              description: "The workbook ID",
+            },
+            sheet: {
+              type: "string",
+              description: "Sheet name or index (1-based) to copy",
+            },
+            newName: {
+              type: "string",
+              description: "Name for the copy (default: '<sheet> (2)')",
+            },
+            position: {
+              type: "number",
+              description: "1-based position for the copy (default: right after the original)",
+            },
+          },
+          required: ["workbookId", "sheet"],
+        },
+      },
+      {
+        name: "move_sheet",
+        description: "Move a sheet to another position in the sheet order",
+        inputSchema: {
+          type: "object",
+          properties: {
+            workbookId: {
+              type: "string",
+              description: "The workbook ID",
+            },
+            sheet: {
+              type: "string",
+              description: "Sheet name or index (1-based)",
+            },
+            position: {
+              type: "number",
+              description: "New 1-based position",
+            },
+          },
+          required: ["workbookId", "sheet", "position"],
+        },
+      },
       {
         name: "get_sheet_info",
         description: "Get information about a sheet including dimensions and row/column counts",
@@ -186,7 +287,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
       // Cell Operations
       {
         name: "read_cell",
-        description: "Read the value from a single cell",
+        description: "Read the value from a single cell. Cells formatted as dates are returned as ISO strings.",
         inputSchema: {
           type: "object",
           properties: {
@@ -226,7 +327,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             },
             value: {
               type: ["string", "number", "boolean"],
-              description: "Value to write. Use '=' prefix for formulas (e.g., '=SUM(A1:A10)')",
+              description: "Value to write. Use '=' prefix for formulas (e.g., '=SUM(A1:A10)'); ISO dates (e.g., '2024-01-31' or '2024-01-31T09:30:00') are written as dates",
             },
           },
           required: ["workbookId", "sheet", "cell", "value"],
@@ -234,7 +335,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
       },
       {
         name: "read_range",
-        description: "Read values from a range of cells",
+        description: "Read values from a range of cells. Cells formatted as dates are returned as ISO strings.",
         inputSchema: {
           type: "object",
           properties: {
@@ -280,7 +381,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
                   type: ["string", "number", "boolean", "null"],
                 },
               },
-              description: "2D array of values. Each inner array is a row. Use null for empty cells.",
+              description: "2D array of values. Each inner array is a row. Use null for empty cells. ISO date strings are written as dates.",
             },
           },
           required: ["workbookId", "sheet", "startCell", "values"],
@@ -305,10 +406,10 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         },
       },
 
-      // Formula Support
+      // Rows and Columns
       {
-        name: "get_formula",
-        description: "Get the formula string from a cell (returns the formula itself, not the calculated result)",
+        name: "insert_rows",
+        description: "Insert empty rows, shifting cells down. Formulas that refer to moved cells are adjusted on every sheet",
         inputSchema: {
           type: "object",
           properties: {
@@ -320,18 +421,21 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: "string",
               description: "Sheet name or index (1-based)",
             },
-            cell: {
-              type: "string",
-              description: "Cell address (e.g., 'A1')",
+            row: {
+              type: "number",
+              description: "Row number (1-based) the new rows are inserted at",
+            },
+            count: {
+              type: "number",
+              description: "Number of rows to insert (default: 1)",
             },
           },
-          required: ["workbookId", "sheet", "cell"],
+          required: ["workbookId", "sheet", "row"],
         },
       },
-
       {
-        name: "recalculate",
-        description: "Force recalculation of all formulas in a workbook using HyperFormula engine",
+        name: "delete_rows",
+        description: "Delete rows, shifting cells up. References to deleted cells become #REF!",
         inputSchema: {
           type: "object",
           properties: {
@@ -339,15 +443,25 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: "string",
               description: "The workbook ID",
             },
+            sheet: {
+              type: "string",
+              description: "Sheet name or index (1-based)",
+            },
+            row: {
+              type: "number",
+              description: "First row number (1-based) to delete",
+            },
+            count: {
+              type: "number",
+              description: "Number of rows to delete (default: 1)",
+            },
           },
-          required: ["workbookId"],
+          required: ["workbookId", "sheet", "row"],
         },
       },
-
-      // Charts
       {
-        name: "create_chart",
-        description: "Create a chart from data in a sheet",
+        name: "insert_columns",
+        description: "Insert empty columns, shifting cells right. Formulas that refer to moved cells are adjusted on every sheet",
         inputSchema: {
           type: "object",
           properties: {
@@ -359,26 +473,21 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: "string",
               description: "Sheet name or index (1-based)",
             },
-            type: {
-              type: "string",
-              enum: ["bar", "line", "pie", "scatter"],
-              description: "Type of chart to create",
-            },
-            dataRange: {
+            column: {
               type: "string",
-              description: "Range containing chart data (e.g., 'A1:B10')",
+              description: "Column letter or 1-based index the new columns are inserted at (e.g., 'C' or '3')",
             },
-            title: {
-              type: "string",
-              description: "Chart title (optional)",
+            count: {
+              type: "number",
+              description: "Number of columns to insert (default: 1)",
             },
           },
-          required: ["workbookId", "sheet", "type", "dataRange"],
+          required: ["workbookId", "sheet", "column"],
         },
       },
       {
-        name: "delete_chart",
-        description: "Delete a chart by its title/name",
+        name: "delete_columns",
+        description: "Delete columns, shifting cells left. References to deleted cells become #REF!",
         inputSchema: {
           type: "object",
           properties: {
@@ -390,43 +499,82 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: "string",
               description: "Sheet name or index (1-based)",
             },
-            chartName: {
+            column: {
               type: "string",
-              description: "The chart title/name to delete",
+              description: "First column letter or 1-based index to delete (e.g., 'C' or '3')",
+            },
+            count: {
+              type: "number",
+              description: "Number of columns to delete (default: 1)",
             },
           },
-          required: ["workbookId", "sheet", "chartName"],
+          required: ["workbookId", "sheet", "column"],
         },
       },
 
-      // Import
+      // Sorting
       {
-        name: "import_markdown_table",
-        description: "Import a markdown table into an Excel workbook. Creates a new workbook or uses existing one.",
+        name: "sort_range",
+        description:
+          "Sort the rows of a range by one or more columns using calculated values. Formatting moves with each row and formulas stay correct",
         inputSchema: {
           type: "object",
           properties: {
-            markdown: {
+            workbookId: {
               type: "string",
-              description: "The markdown table string to import (with | delimiters)",
+              description: "The workbook ID",
             },
-            workbookId: {
+            sheet: {
               type: "string",
-              description: "Optional workbook ID to import into. Creates new workbook if not provided.",
+              description: "Sheet name or index (1-based)",
             },
-            sheetName: {
+            range: {
               type: "string",
-              description: "Optional sheet name for the imported data (defaults to 'Sheet1')",
+              description: "Range to sort (e.g., 'A1:D50')",
+            },
+            hasHeader: {
+              type: "boolean",
+              description: "Whether the first row holds headers and stays in place (default: false)",
+            },
+            keys: {
+              type: "array",
+              description: "Sort keys, most significant first",
+              items: {
+                type: "object",
+                properties: {
+                  column: {
+                    type: "string",
+                    description: "Column letter, or header text when hasHeader is true",
+                  },
+                  order: {
+                    type: "string",
+                    enum: ["asc", "desc"],
+                    description: "Sort order (default: asc)",
+                  },
+                  type: {
+                    type: "string",
+                    enum: ["number", "text", "date", "custom"],
+                    description: "How to compare values (default: Excel's mixed order of numbers, text, booleans, errors)",
+                  },
+                  customList: {
+                    type: "array",
+                    items: { type: "string" },
+                    description: "Value order for custom sorts (e.g., ['Low', 'Medium', 'High'])",
+                  },
+                },
+                required: ["column"],
+              },
             },
           },
-          required: ["markdown"],
+          required: ["workbookId", "sheet", "range", "keys"],
         },
       },
 
-      // Pivot Tables
+      // Queries
       {
-        name: "create_pivot_table",
-        description: "Create a pivot table from source data. Creates a new sheet with the aggregated results.",
+        name: "query_sheet",
+        description:
+          "Query sheet data like SQL: select columns, filter rows, group with aggregations, sort and page. Returns only the matching records, computed from calculated values. The first row of the range holds column names",
         inputSchema: {
           type: "object",
           properties: {
@@ -434,191 +582,1911 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: "string",
               description: "The workbook ID",
             },
-            sourceSheet: {
+            sheet: {
               type: "string",
-              description: "Sheet containing source data (name or index)",
+              description: "Sheet name or index (1-based)",
             },
-            sourceRange: {
+            range: {
               type: "string",
-              description: "Range of source data including headers (e.g., 'A1:D100')",
+              description: "Range with a header row (optional, defaults to the sheet's used area)",
             },
-            rowFields: {
+            select: {
+              type: "array",
+              description:
+                "Columns to return: a column name, or { field, aggregation, as } (e.g., { \"field\": \"Amount\", \"aggregation\": \"sum\", \"as\": \"Total\" }). Defaults to every column",
+              items: {
+                type: ["string", "object"],
+                properties: {
+                  field: { type: "string" },
+                  aggregation: { type: "string", enum: ["sum", "count", "average", "min", "max", "distinctCount", "median", "stdev"] },
+                  as: { type: "string" },
+                },
+              },
+            },
+            where: {
+              type: "object",
+              description:
+                "Filter: { field, op, value } with op one of =, !=, >, >=, <, <=, in, notIn, contains, startsWith, endsWith, isNull, isNotNull; combine with { and: [...] }, { or: [...] } or { not: {...} }",
+            },
+            groupBy: {
               type: "array",
               items: { type: "string" },
-              description: "Column headers to use as row grouping fields",
+              description: "Columns to group by; other selected columns need an aggregation",
             },
-            dataFields: {
+            orderBy: {
               type: "array",
+              description: "Sort keys, most significant first",
               items: {
                 type: "object",
                 properties: {
-                  field: {
-                    type: "string",
-                    description: "Column header to aggregate",
-                  },
-                  aggregation: {
-                    type: "string",
-                    enum: ["sum", "count", "average", "min", "max"],
-                    description: "Aggregation function",
-                  },
+                  field: { type: "string", description: "Output column or source column name" },
+                  order: { type: "string", enum: ["asc", "desc"] },
                 },
-                required: ["field", "aggregation"],
+                required: ["field"],
               },
-              description: "Fields to aggregate with their aggregation functions",
             },
-            destinationSheet: {
+            limit: {
+              type: "number",
+              description: "Maximum number of records to return",
+            },
+            offset: {
+              type: "number",
+              description: "Number of records to skip (default: 0)",
+            },
+          },
+          required: ["workbookId", "sheet"],
+        },
+      },
+
+      // Find and Replace
+      {
+        name: "find",
+        description: "Find cells whose value or formula matches a search text across the workbook or one sheet",
+        inputSchema: {
+          type: "object",
+          properties: {
+            workbookId: {
               type: "string",
-              description: "Name for the pivot table sheet (optional, auto-generated if not provided)",
+              description: "The workbook ID",
+            },
+            query: {
+              type: "string",
+              description: "Text or regular expression to search for",
+            },
+            sheet: {
+              type: "string",
+              description: "Sheet name or index to search (optional, searches every sheet if omitted)",
+            },
+            matchCase: {
+              type: "boolean",
+              description: "Case-sensitive matching (default: false)",
+            },
+            wholeCell: {
+              type: "boolean",
+              description: "Match the entire cell content only (default: false)",
+            },
+            regex: {
+              type: "boolean",
+              description: "Treat the search text as a regular expression (default: false)",
+            },
+            lookIn: {
+              type: "string",
+              enum: ["values", "formulas", "both"],
+              description: "Search cell values (constants and calculated results), formula text, or both (default: both)",
+            },
+            limit: {
+              type: "number",
+              description: "Maximum number of matches to return",
             },
           },
-          required: ["workbookId", "sourceSheet", "sourceRange", "rowFields", "dataFields"],
+          required: ["workbookId", "query"],
+        },
+      },
+      {
+        name: "replace",
+        description:
+          "Replace text in cell values and formulas across the workbook or one sheet. Formulas are recalculated after the change",
+        inputSchema: {
+          type: "object",
+          properties: {
+            workbookId: {
+              type: "string",
+              description: "The workbook ID",
+            },
+            query: {
+              type: "string",
+              description: "Text or regular expression to search for",
+            },
+            replacement: {
+              type: "string",
+              description: "Replacement text ($1, $2 refer to regex groups)",
+            },
+            sheet: {
+              type: "string",
+              description: "Sheet name or index (optional, replaces in every sheet if omitted)",
+            },
+            matchCase: {
+              type: "boolean",
+              description: "Case-sensitive matching (default: false)",
+            },
+            wholeCell: {
+              type: "boolean",
+              description: "Match the entire cell content only (default: false)",
+            },
+            regex: {
+              type: "boolean",
+              description: "Treat the search text as a regular expression (default: false)",
+            },
+            lookIn: {
+              type: "string",
+              enum: ["values", "formulas", "both"],
+              description: "Replace in constant values, formula text, or both (default: both)",
+            },
+          },
+          required: ["workbookId", "query", "replacement"],
         },
       },
-    ],
-  };
-});
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
+      // History
+      {
+        name: "undo",
+        description:
+          "Undo the most recent change to a workbook (writes, formatting, sheet, row/column, table, chart, name and pivot table changes)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            workbookId: {
+              type: "string",
+              description: "The workbook ID",
+            },
+          },
+          required: ["workbookId"],
+        },
+      },
+      {
+        name: "redo",
+        description: "Redo the most recently undone change. Making a new change clears the redo history",
+        inputSchema: {
+          type: "object",
+          properties: {
+            workbookId: {
+              type: "string",
+              description: "The workbook ID",
+            },
+          },
+          required: ["workbookId"],
+        },
+      },
+      {
+        name: "create_checkpoint",
+        description: "Save the current state of a workbook under a name so it can be restored later. Reusing a name replaces that checkpoint",
+        inputSchema: {
+          type: "object",
+          properties: {
+            workbookId: {
+              type: "string",
+              description: "The workbook ID",
+            },
+            name: {
+              type: "string",
+              description: "Checkpoint name (e.g., 'before-cleanup')",
+            },
+          },
+          required: ["workbookId", "name"],
+        },
+      },
+      {
+        name: "restore_checkpoint",
+        description: "Return a workbook to a named checkpoint. The restore can itself be undone",
+        inputSchema: {
+          type: "object",
+          properties: {
+            workbookId: {
+              type: "string",
+              description: "The workbook ID",
+            },
+            name: {
+              type: "string",
+              description: "Checkpoint name",
+            },
+          },
+          required: ["workbookId", "name"],
+        },
+      },
+      {
+        name: "list_history",
+        description: "List the changes that can be undone and redone, most recent first, and the saved checkpoints",
+        inputSchema: {
+          type: "object",
+          properties: {
+            workbookId: {
+              type: "string",
+              description: "The workbook ID",
+            },
+          },
+          required: ["workbookId"],
+        },
+      },
 
-  try {
-    switch (name) {
+      // Comparison
+      {
+        name: "diff_workbooks",
+        description:
+          "Compare a workbook with another open workbook, or with its saved file when no base is given. Reports added, removed and renamed sheets, value and formula changes (with calculated results) and style changes",
+        inputSchema: {
+          type: "object",
+          properties: {
+            workbookId: {
+              type: "string",
+              description: "The workbook ID to review",
+            },
+            baseWorkbookId: {
+              type: "string",
+              description: "Workbook ID to compare against (optional, defaults to the workbook's file on disk)",
+            },
+            includeStyles: {
+              type: "boolean",
+              description: "Report formatting changes (default: true)",
+            },
+            markdown: {
+              type: "boolean",
+              description: "Also return a compact markdown summary (default: false)",
+            },
+            limit: {
+              type: "number",
+              description: "Maximum cell and style changes to list (default: 500); the summary always counts all of them",
+            },
+          },
+          required: ["workbookId"],
+        },
+      },
+
+      // Formatting
+      {
+        name: "format_range",
+        description:
+          "Apply formatting to every cell in a range: font, fill, borders, alignment and number format. Only the properties given are changed.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            workbookId: {
+              type: "string",
+              description: "The workbook ID",
+            },
+            sheet: {
+              type: "string",
+              description: "Sheet name or index (1-based)",
+            },
+            range: {
+              type: "string",
+              description: "Cell range (e.g., 'A1:D1') or single cell",
+            },
+            font: fontSchema,
+            fill: fillSchema,
+            border: {
+              type: "object",
+              properties: {
+                all: { ...borderSchema, description: "Every edge of every cell" },
+                outline: { ...borderSchema, description: "Only the outer edges of the range" },
+                top: borderSchema,
+                bottom: borderSchema,
+                left: borderSchema,
+                right: borderSchema,
+              },
+              description: "Cell borders",
+            },
+            alignment: {
+              type: "object",
+              properties: {
+                horizontal: {
+                  type: "string",
+                  enum: ["left", "center", "right", "fill", "justify", "centerContinuous", "distributed"],
+                },
+                vertical: {
+                  type: "string",
+                  enum: ["top", "middle", "bottom", "distributed", "justify"],
+                },
+                wrapText: { type: "boolean" },
+                indent: { type: "number" },
+                textRotation: { type: "number", description: "Rotation in degrees (-90 to 90)" },
+              },
+              description: "Text alignment",
+            },
+            numFmt: {
+              type: "string",
+              description:
+                "Number format code (e.g., '#,##0.00', '0%', 'yyyy-mm-dd') or one of: general, integer, decimal, currency, percent, date, datetime, time, text",
+            },
+          },
+          required: ["workbookId", "sheet", "range"],
+        },
+      },
+      {
+        name: "get_cell_style",
+        description: "Read the effective formatting of a cell (font, fill, borders, alignment, number format)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            workbookId: {
+              type: "string",
+              description: "The workbook ID",
+            },
+            sheet: {
+              type: "string",
+              description: "Sheet name or index (1-based)",
+            },
+            cell: {
+              type: "string",
+              description: "Cell address (e.g., 'A1')",
+            },
+          },
+          required: ["workbookId", "sheet", "cell"],
+        },
+      },
+
+      {
+        name: "add_conditional_formatting",
+        description:
+          "Add a conditional formatting rule to a range: cell value comparisons, formula rules, top/bottom N, above average, text matches, color scales, data bars or icon sets",
+        inputSchema: {
+          type: "object",
+          properties: {
+            workbookId: {
+              type: "string",
+              description: "The workbook ID",
+            },
+            sheet: {
+              type: "string",
+              description: "Sheet name or index (1-based)",
+            },
+            range: {
+              type: "string",
+              description: "Cell range the rule applies to (e.g., 'B2:B100')",
+            },
+            type: {
+              type: "string",
+              enum: ["cellIs", "expression", "colorScale", "dataBar", "iconSet", "top10", "aboveAverage", "containsText"],
+              description: "Rule type",
+            },
+            operator: {
+              type: "string",
+              enum: [
+                "equal", "notEqual", "greaterThan", "greaterThanOrEqual", "lessThan", "lessThanOrEqual",
+                "between", "notBetween",
+              ],
+              description: "Comparison for cellIs rules",
+            },
+            values: {
+              type: "array",
+              items: { type: ["string", "number"] },
+              description: "Operands for cellIs rules (two for between/notBetween). Numbers, text, or formulas prefixed with '='",
+            },
+            formula: {
+              type: "string",
+              description: "Formula for expression rules, relative to the top-left cell of the range (e.g., '=$C2<0')",
+            },
+            text: {
+              type: "string",
+              description: "Text to look for in containsText rules",
+            },
+            rank: {
+              type: "number",
+              description: "Number of items (or percent) for top10 rules (default 10)",
+            },
+            percent: {
+              type: "boolean",
+              description: "Treat rank as a percentage in top10 rules",
+            },
+            bottom: {
+              type: "boolean",
+              description: "Highlight the bottom rather than the top in top10 rules",
+            },
+            aboveAverage: {
+              type: "boolean",
+              description: "For aboveAverage rules, false highlights values below average (default true)",
+            },
+            colors: {
+              type: "array",
+              items: { type: "string" },
+              description: "2 or 3 hex colors from low to high for color scales",
+            },
+            color: {
+              type: "string",
+              description: "Hex bar color for data bars",
+            },
+            iconSet: {
+              type: "string",
+              description: "Icon set name for iconSet rules (e.g., '3TrafficLights1', '3Arrows', '5Rating')",
+            },
+            style: {
+              type: "object",
+              properties: {
+                font: fontSchema,
+                fill: fillSchema,
+                border: {
+                  type: "object",
+                  properties: {
+                    all: borderSchema,
+                    top: borderSchema,
+                    bottom: borderSchema,
+                    left: borderSchema,
+                    right: borderSchema,
+                  },
+                },
+                numFmt: { type: "string", description: "Number format code" },
+              },
+              description: "Formatting applied to matching cells (not used by color scales, data bars and icon sets)",
+            },
+          },
+          required: ["workbookId", "sheet", "range", "type"],
+        },
+      },
+      {
+        name: "list_conditional_formatting",
+        description: "List conditional formatting rules, including rules loaded from the opened file",
+        inputSchema: {
+          type: "object",
+          properties: {
+            workbookId: {
+              type: "string",
+              description: "The workbook ID",
+            },
+            sheet: {
+              type: "string",
+              description: "Sheet name or index (1-based). Lists rules on all sheets if omitted.",
+            },
+          },
+          required: ["workbookId"],
+        },
+      },
+      {
+        name: "remove_conditional_formatting",
+        description: "Remove conditional formatting rules from a sheet by range, by priority, or both",
+        inputSchema: {
+          type: "object",
+          properties: {
+            workbookId: {
+              type: "string",
+              description: "The workbook ID",
+            },
+            sheet: {
+              type: "string",
+              description: "Sheet name or index (1-based)",
+            },
+            range: {
+              type: "string",
+              description: "Remove rules applied to exactly this range",
+            },
+            priority: {
+              type: "number",
+              description: "Remove the rule with this priority (as shown by list_conditional_formatting)",
+            },
+          },
+          required: ["workbookId", "sheet"],
+        },
+      },
+
+      // Data Validation
+      {
+        name: "set_data_validation",
+        description:
+          "Add a data validation rule to a range: dropdown list (literal items or a source range), whole/decimal/date bounds, text length, or a custom formula",
+        inputSchema: {
+          type: "object",
+          properties: {
+            workbookId: {
+              type: "string",
+              description: "The workbook ID",
+            },
+            sheet: {
+              type: "string",
+              description: "Sheet name or index (1-based)",
+            },
+            range: {
+              type: "string",
+              description: "Cell range to validate (e.g., 'C2:C100')",
+            },
+            type: {
+              type: "string",
+              enum: ["list", "whole", "decimal", "date", "textLength", "custom"],
+              description: "Validation type",
+            },
+            operator: {
+              type: "string",
+              enum: [
+                "between", "notBetween", "equal", "notEqual", "greaterThan", "lessThan",
+                "greaterThanOrEqual", "lessThanOrEqual",
+              ],
+              description: "Comparison for whole/decimal/date/textLength rules (default 'between')",
+            },
+            values: {
+              type: "array",
+              items: { type: ["string", "number"] },
+              description:
+                "List items for list rules, or bounds for the other types (two for between/notBetween). Dates as ISO strings (e.g., '2024-01-31'); formulas prefixed with '='",
+            },
+            source: {
+              type: "string",
+              description: "Range holding the list items for list rules (e.g., 'Lists!$A$1:$A$10')",
+            },
+            formula: {
+              type: "string",
+              description: "Formula for custom rules, relative to the top-left cell of the range (e.g., '=ISNUMBER(A2)')",
+            },
+            allowBlank: {
+              type: "boolean",
+              description: "Whether empty cells pass validation (default true)",
+            },
+            errorStyle: {
+              type: "string",
+              enum: ["stop", "warning", "information"],
+              description: "How Excel reacts to invalid input (default 'stop')",
+            },
+            errorTitle: {
+              type: "string",
+              description: "Title of the error alert",
+            },
+            errorMessage: {
+              type: "string",
+              description: "Text of the error alert",
+            },
+            promptTitle: {
+              type: "string",
+              description: "Title of the input message shown when the cell is selected",
+            },
+            prompt: {
+              type: "string",
+              description: "Input message shown when the cell is selected",
+            },
+          },
+          required: ["workbookId", "sheet", "range", "type"],
+        },
+      },
+      {
+        name: "list_data_validations",
+        description: "List the data validation rules on a sheet with the ranges they apply to",
+        inputSchema: {
+          type: "object",
+          properties: {
+            workbookId: {
+              type: "string",
+              description: "The workbook ID",
+            },
+            sheet: {
+              type: "string",
+              description: "Sheet name or index (1-based)",
+            },
+          },
+          required: ["workbookId", "sheet"],
+        },
+      },
+      {
+        name: "clear_data_validation",
+        description: "Remove data validation from every cell in a range",
+        inputSchema: {
+          type: "object",
+          properties: {
+            workbookId: {
+              type: "string",
+              description: "The workbook ID",
+            },
+            sheet: {
+              type: "string",
+              description: "Sheet name or index (1-based)",
+            },
+            range: {
+              type: "string",
+              description: "Cell range to clear (e.g., 'C2:C100')",
+            },
+          },
+          required: ["workbookId", "sheet", "range"],
+        },
+      },
+      {
+        name: "check_data_validation",
+        description:
+          "Check existing cells against their validation rules using calculated values, and report the cells that break them",
+        inputSchema: {
+          type: "object",
+          properties: {
+            workbookId: {
+              type: "string",
+              description: "The workbook ID",
+            },
+            sheet: {
+              type: "string",
+              description: "Sheet name or index (1-based)",
+            },
+            range: {
+              type: "string",
+              description: "Only check cells in this range (optional, checks every validated cell if omitted)",
+            },
+          },
+          required: ["workbookId", "sheet"],
+        },
+      },
+
+      // Named Ranges
+      {
+        name: "define_name",
+        description:
+          "Create a named range or named formula (e.g., Revenue = Sheet1!$B$2:$B$100) usable in formulas like =SUM(Revenue)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            workbookId: {
+              type: "string",
+              description: "The workbook ID",
+            },
+            name: {
+              type: "string",
+              description: "The name to define (letters, digits, '_' and '.', not a cell address)",
+            },
+            refersTo: {
+              type: "string",
+              description: "What the name refers to: a range (e.g., 'Sheet1!$B$2:$B$100'), a constant or a formula",
+            },
+            scope: {
+              type: "string",
+              description: "Sheet name or index to make the name local to that sheet (optional, workbook-wide if omitted)",
+            },
+          },
+          required: ["workbookId", "name", "refersTo"],
+        },
+      },
+      {
+        name: "update_name",
+        description: "Change what an existing name refers to",
+        inputSchema: {
+          type: "object",
+          properties: {
+            workbookId: {
+              type: "string",
+              description: "The workbook ID",
+            },
+            name: {
+              type: "string",
+              description: "The name to update",
+            },
+            refersTo: {
+              type: "string",
+              description: "The new range, constant or formula",
+            },
+            scope: {
+              type: "string",
+              description: "Sheet name or index for a sheet-scoped name (omit for workbook-wide names)",
+            },
+          },
+          required: ["workbookId", "name", "refersTo"],
+        },
+      },
+      {
+        name: "list_names",
+        description: "List defined names with their scope, definition and calculated value",
+        inputSchema: {
+          type: "object",
+          properties: {
+            workbookId: {
+              type: "string",
+              description: "The workbook ID",
+            },
+          },
+          required: ["workbookId"],
+        },
+      },
+      {
+        name: "delete_name",
+        description: "Delete a defined name. Formulas that use it will show #NAME?",
+        inputSchema: {
+          type: "object",
+          properties: {
+            workbookId: {
+              type: "string",
+              description: "The workbook ID",
+            },
+            name: {
+              type: "string",
+              description: "The name to delete",
+            },
+            scope: {
+              type: "string",
+              description: "Sheet name or index for a sheet-scoped name (omit for workbook-wide names)",
+            },
+          },
+          required: ["workbookId", "name"],
+        },
+      },
+
+      // Tables
+      {
+        name: "create_table",
+        description:
+          "Turn a range into an Excel table. Formulas can then use structured references like =SUM(Sales[Amount]) or =[@Price]*[@Qty]",
+        inputSchema: {
+          type: "object",
+          properties: {
+            workbookId: {
+              type: "string",
+              description: "The workbook ID",
+            },
+            sheet: {
+              type: "string",
+              description: "Sheet name or index (1-based)",
+            },
+            range: {
+              type: "string",
+              description: "Range covering the header row and data (e.g., 'A1:D20'). The totals row is added below it",
+            },
+            name: {
+              type: "string",
+              description: "Table name, unique in the workbook (e.g., 'Sales')",
+            },
+            headerRow: {
+              type: "boolean",
+              description: "Whether the first row of the range holds column names (default: true)",
+            },
+            totalsRow: {
+              type: "boolean",
+              description: "Add a totals row below the data (default: false, or true when totals is given)",
+            },
+            totals: {
+              type: "object",
+              description: "Totals row function per column name (e.g., { \"Amount\": \"sum\" })",
+              additionalProperties: {
+                type: "string",
+                enum: ["none", "sum", "average", "count", "countNums", "max", "min", "stdDev", "var"],
+              },
+            },
+            style: {
+              type: "object",
+              description: "Table style",
+              properties: {
+                theme: { type: "string", description: "Built-in style name (default: 'TableStyleMedium2')" },
+                showRowStripes: { type: "boolean", description: "Banded rows (default: true)" },
+                showColumnStripes: { type: "boolean", description: "Banded columns (default: false)" },
+                showFirstColumn: { type: "boolean", description: "Emphasize the first column (default: false)" },
+                showLastColumn: { type: "boolean", description: "Emphasize the last column (default: false)" },
+              },
+            },
+          },
+          required: ["workbookId", "sheet", "range", "name"],
+        },
+      },
+      {
+        name: "list_tables",
+        description: "List tables with their range, columns and row count",
+        inputSchema: {
+          type: "object",
+          properties: {
+            workbookId: {
+              type: "string",
+              description: "The workbook ID",
+            },
+            sheet: {
+              type: "string",
+              description: "Sheet name or index (optional, lists every table in the workbook if omitted)",
+            },
+          },
+          required: ["workbookId"],
+        },
+      },
+      {
+        name: "append_table_rows",
+        description:
+          "Add rows to the end of a table. Columns left out of a record continue the formula of the row above",
+        inputSchema: {
+          type: "object",
+          properties: {
+            workbookId: {
+              type: "string",
+              description: "The workbook ID",
+            },
+            table: {
+              type: "string",
+              description: "Table name",
+            },
+            rows: {
+              type: "array",
+              description: "Rows as arrays in column order or as objects keyed by column name. Strings starting with '=' are formulas",
+              items: {
+                type: ["array", "object"],
+              },
+            },
+          },
+          required: ["workbookId", "table", "rows"],
+        },
+      },
+      {
+        name: "read_table",
+        description: "Read a table's data rows as records keyed by column name, with calculated values",
+        inputSchema: {
+          type: "object",
+          properties: {
+            workbookId: {
+              type: "string",
+              description: "The workbook ID",
+            },
+            table: {
+              type: "string",
+              description: "Table name",
+            },
+          },
+          required: ["workbookId", "table"],
+        },
+      },
+
+      // Formula Support
+      {
+        name: "get_formula",
+        description: "Get the formula string from a cell (returns the formula itself, not the calculated result)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            workbookId: {
+              type: "string",
+              description: "The workbook ID",
+            },
+            sheet: {
+              type: "string",
+              description: "Sheet name or index (1-based)",
+            },
+            cell: {
+              type: "string",
+              description: "Cell address (e.g., 'A1')",
+            },
+          },
+          required: ["workbookId", "sheet", "cell"],
+        },
+      },
+
+      {
+        name: "recalculate",
+        description:
+          "Rebuild the formula engine from the workbook and recalculate every formula. Reports cells whose calculated value changed and cells where the engine had drifted from the workbook",
+        inputSchema: {
+          type: "object",
+          properties: {
+            workbookId: {
+              type: "string",
+              description: "The workbook ID",
+            },
+            compareCached: {
+              type: "boolean",
+              description: "Also compare results with the values Excel cached in the opened file (default: false)",
+            },
+            limit: {
+              type: "number",
+              description: "Maximum cells to list per category (default: 200)",
+            },
+          },
+          required: ["workbookId"],
+        },
+      },
+      {
+        name: "trace_precedents",
+        description:
+          "Trace where a cell's value comes from: the cells, ranges and names its formula reads, across sheets, as a tree with each formula and calculated value. Without a cell, lists the sheet's input cells (constants formulas depend on) and output cells (formulas nothing else uses)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            workbookId: {
+              type: "string",
+              description: "The workbook ID",
+            },
+            sheet: {
+              type: "string",
+              description: "Sheet name or index",
+            },
+            cell: {
+              type: "string",
+              description: "Cell to trace (e.g., 'D10'); omit for the sheet-level inputs and outputs",
+            },
+            depth: {
+              type: "number",
+              description: "Levels to follow (default: 3)",
+            },
+          },
+          required: ["workbookId", "sheet"],
+        },
+      },
+      {
+        name: "trace_dependents",
+        description:
+          "Trace which formulas use a cell, directly or through other formulas, across sheets, as a tree with each formula and calculated value. Without a cell, lists the sheet's input and output cells",
+        inputSchema: {
+          type: "object",
+          properties: {
+            workbookId: {
+              type: "string",
+              description: "The workbook ID",
+            },
+            sheet: {
+              type: "string",
+              description: "Sheet name or index",
+            },
+            cell: {
+              type: "string",
+              description: "Cell to trace (e.g., 'B2'); omit for the sheet-level inputs and outputs",
+            },
+            depth: {
+              type: "number",
+              description: "Levels to follow (default: 3)",
+            },
+          },
+          required: ["workbookId", "sheet"],
+        },
+      },
+      {
+        name: "audit_formulas",
+        description:
+          "Check every formula in the workbook (or one sheet) for error results (#REF!, #DIV/0!, #NAME?, #VALUE!, #N/A, #CYCLE!), functions the engine can't evaluate, formulas that break the pattern of their row or column, and hard-coded numbers other than 0 and 1",
+        inputSchema: {
+          type: "object",
+          properties: {
+            workbookId: {
+              type: "string",
+              description: "The workbook ID",
+            },
+            sheet: {
+              type: "string",
+              description: "Sheet name or index (optional, audits every sheet if omitted)",
+            },
+            limit: {
+              type: "number",
+              description: "Maximum issues to list per category (default: 200); the summary always counts all of them",
+            },
+          },
+          required: ["workbookId"],
+        },
+      },
+
+      // Charts
+      {
+        name: "create_chart",
+        description:
+          "Create a chart from data in a sheet. The first column is used for categories (x values for scatter) and a text header row for series names. The chart is written to the file on save_workbook.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            workbookId: {
+              type: "string",
+              description: "The workbook ID",
+            },
+            sheet: {
+              type: "string",
+              description: "Sheet name or index (1-based)",
+            },
+            type: {
+              type: "string",
+              enum: ["bar", "line", "pie", "scatter"],
+              description: "Type of chart to create",
+            },
+            dataRange: {
+              type: "string",
+              description: "Range containing chart data (e.g., 'A1:B10')",
+            },
+            title: {
+              type: "string",
+              description: "Chart title (optional)",
+            },
+            position: {
+              type: "object",
+              properties: {
+                col: {
+                  type: "number",
+                  description: "1-based column of the chart's top-left corner",
+                },
+                row: {
+                  type: "number",
+                  description: "1-based row of the chart's top-left corner",
+                },
+              },
+              required: ["col", "row"],
+              description: "Top-left cell to anchor the chart at (optional, defaults to just right of the data)",
+            },
+          },
+          required: ["workbookId", "sheet", "type", "dataRange"],
+        },
+      },
+      {
+        name: "list_charts",
+        description: "List charts in a workbook, including charts loaded from the opened file",
+        inputSchema: {
+          type: "object",
+          properties: {
+            workbookId: {
+              type: "string",
+              description: "The workbook ID",
+            },
+            sheet: {
+              type: "string",
+              description: "Sheet name or index (1-based). Lists charts on all sheets if omitted.",
+            },
+          },
+          required: ["workbookId"],
+        },
+      },
+      {
+        name: "delete_chart",
+        description: "Delete a chart by its title/name",
+        inputSchema: {
+          type: "object",
+          properties: {
+            workbookId: {
+              type: "string",
+              description: "The workbook ID",
+            },
+            sheet: {
+              type: "string",
+              description: "Sheet name or index (1-based)",
+            },
+            chartName: {
+              type: "string",
+              description: "The chart title/name to delete",
+            },
+          },
+          required: ["workbookId", "sheet", "chartName"],
+        },
+      },
+
+      // Import and Export
+      {
+        name: "import_markdown_table",
+        description: "Import a markdown table into an Excel workbook. Creates a new workbook or uses existing one.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            markdown: {
+              type: "string",
+              description: "The markdown table string to import (with | delimiters)",
+            },
+            workbookId: {
+              type: "string",
+              description: "Optional workbook ID to import into. Creates new workbook if not provided.",
+            },
+            sheetName: {
+              type: "string",
+              description: "Optional sheet name for the imported data (defaults to 'Sheet1')",
+            },
+          },
+          required: ["markdown"],
+        },
+      },
+      {
+        name: "import_csv",
+        description:
+          "Import CSV or TSV data from a file (streamed) or inline text into a sheet. Numbers and booleans are typed automatically; =formulas stay text unless formulas is set. Creates a new workbook or uses an existing one",
+        inputSchema: {
+          type: "object",
+          properties: {
+            path: {
+              type: "string",
+              description: "CSV file to read (either path or content is required)",
+            },
+            content: {
+              type: "string",
+              description: "Inline CSV text",
+            },
+            workbookId: {
+              type: "string",
+              description: "Optional workbook ID to import into. Creates new workbook if not provided.",
+            },
+            sheet: {
+              type: "string",
+              description: "Sheet to import into, created if missing (default: 'Imported')",
+            },
+            startCell: {
+              type: "string",
+              description: "Top-left cell for the data (default: A1)",
+            },
+            delimiter: {
+              type: "string",
+              description: "Field delimiter (default: tab for .tsv files, otherwise comma)",
+            },
+            quote: {
+              type: "string",
+              description: "Quote character (default: \")",
+            },
+            encoding: {
+              type: "string",
+              description: "File encoding (default: utf8)",
+            },
+            header: {
+              type: "boolean",
+              description: "First row holds column names and is kept as text (default: true)",
+            },
+            inferTypes: {
+              type: "boolean",
+              description: "Convert numbers and booleans instead of importing everything as text (default: true)",
+            },
+            formulas: {
+              type: "boolean",
+              description: "Import fields starting with '=' as live formulas (default: false). Only enable for trusted data",
+            },
+          },
+        },
+      },
+      {
+        name: "import_json",
+        description:
+          "Write an array of JSON objects into a sheet, one row per record. Nested objects become dotted columns (customer.name), ISO date strings become dates; =formulas stay text unless formulas is set. Creates a new workbook or uses an existing one",
+        inputSchema: {
+          type: "object",
+          properties: {
+            records: {
+              type: "array",
+              items: { type: "object" },
+              description: "The records to import",
+            },
+            workbookId: {
+              type: "string",
+              description: "Workbook to import into. Creates a new workbook if not provided.",
+            },
+            sheet: {
+              type: "string",
+              description: "Sheet name, created if needed (default: 'Imported')",
+            },
+            startCell: {
+              type: "string",
+              description: "Top-left cell for the header row (default: A1)",
+            },
+            columns: {
+              type: "array",
+              items: { type: "string" },
+              description: "Dotted keys to import, in column order (default: every key in the order first seen)",
+            },
+            headers: {
+              type: "object",
+              additionalProperties: { type: "string" },
+              description: "Header text for keys, e.g. {\"customer.name\": \"Customer\"}",
+            },
+            arrays: {
+              type: "string",
+              enum: ["join", "explode", "json"],
+              description: "Array values: join into text, explode into one row per element, or keep as a JSON string (default: join)",
+            },
+            arraySeparator: {
+              type: "string",
+              description: "Separator for joined arrays (default: \", \")",
+            },
+            append: {
+              type: "boolean",
+              description: "Add rows below the existing data, matching columns by header; unmatched keys become new columns (default: false)",
+            },
+            formulas: {
+              type: "boolean",
+              description: "Import string values starting with '=' as live formulas (default: false). Only enable for trusted data",
+            },
+          },
+          required: ["records"],
+        },
+      },
+      {
+        name: "export_csv",
+        description: "Export a sheet or range as CSV, to a file (streamed) or as returned text, using calculated values or formulas",
+        inputSchema: {
+          type: "object",
+          properties: {
+            workbookId: {
+              type: "string",
+              description: "The workbook ID",
+            },
+            sheet: {
+              type: "string",
+              description: "Sheet name or index",
+            },
+            range: {
+              type: "string",
+              description: "Range to export (default: the sheet's used area)",
+            },
+            path: {
+              type: "string",
+              description: "File to write; the CSV text is returned when omitted",
+            },
+            delimiter: {
+              type: "string",
+              description: "Field delimiter (default: tab for .tsv files, otherwise comma)",
+            },
+            quote: {
+              type: "string",
+              description: "Quote character (default: \")",
+            },
+            encoding: {
+              type: "string",
+              description: "File encoding (default: utf8)",
+            },
+            formulas: {
+              type: "boolean",
+              description: "Write formulas (e.g., =SUM(A1:A3)) instead of calculated values (default: false)",
+            },
+          },
+          required: ["workbookId", "sheet"],
+        },
+      },
+      {
+        name: "export_range",
+        description: "Export a range as a Markdown table, an HTML table (with basic styles and merged cells) or JSON records keyed by the header row. Markdown and HTML show values as displayed with their number formats.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            workbookId: {
+              type: "string",
+              description: "The workbook ID",
+            },
+            sheet: {
+              type: "string",
+              description: "Sheet name or index",
+            },
+            range: {
+              type: "string",
+              description: "Range to export (default: the sheet's used area)",
+            },
+            format: {
+              type: "string",
+              enum: ["markdown", "html", "json-records"],
+              description: "Output format",
+            },
+            header: {
+              type: "boolean",
+              description: "Treat the first row as headers (default: true). Markdown uses column letters as headers when false.",
+            },
+          },
+          required: ["workbookId", "sheet", "format"],
+        },
+      },
+
+      // Pivot Tables
+      {
+        name: "create_pivot_table",
+        description:
+          "Create a pivot table from source data: row fields with subtotals, column fields for a cross-tab, grand totals, report filters and sorting. Writes the summarized values to a sheet; saving writes a native Excel pivot table that refreshes on open (except for median and distinctCount).",
+        inputSchema: {
+          type: "object",
+          properties: {
+            workbookId: {
+              type: "string",
+              description: "The workbook ID",
+            },
+            sourceSheet: {
+              type: "string",
+              description: "Sheet containing source data (name or index)",
+            },
+            sourceRange: {
+              type: "string",
+              description: "Range of source data including headers (e.g., 'A1:D100')",
+            },
+            name: {
+              type: "string",
+              description: "Pivot table name, used to refresh it (default: PivotTable1, PivotTable2, ...)",
+            },
+            rowFields: {
+              type: "array",
+              items: { type: "string" },
+              description: "Column headers to group rows by, outermost first",
+            },
+            columnFields: {
+              type: "array",
+              items: { type: "string" },
+              description: "Column headers whose values become columns, outermost first",
+            },
+            dataFields: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  field: {
+                    type: "string",
+                    description: "Column header to aggregate",
+                  },
+                  aggregation: {
+                    type: "string",
+                    enum: ["sum", "count", "average", "min", "max", "distinctCount", "median", "stdev", "percentOfTotal"],
+                    description: "Aggregation function; count counts non-empty values, percentOfTotal shows each sum as a share of the grand total",
+                  },
+                  name: {
+                    type: "string",
+                    description: "Caption (default: e.g. 'Sum of Sales')",
+                  },
+                },
+                required: ["field", "aggregation"],
+              },
+              description: "Fields to aggregate with their aggregation functions",
+            },
+            filters: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  field: { type: "string" },
+                  values: { type: "array", items: {}, description: "Values to include; '(blank)' matches empty cells" },
+                },
+                required: ["field", "values"],
+              },
+              description: "Report filters: only source rows matching every filter are summarized",
+            },
+            sort: {
+              type: "object",
+              properties: {
+                by: { type: "string", enum: ["label", "value"] },
+                order: { type: "string", enum: ["asc", "desc"] },
+                dataField: { type: "number", description: "Index of the data field to sort by value (default: 0)" },
+              },
+              required: ["by"],
+              description: "Order of row items (default: by label, ascending)",
+            },
+            subtotals: {
+              type: "boolean",
+              description: "Add a subtotal row after each group of an outer row field (default: true)",
+            },
+            grandTotals: {
+              type: "boolean",
+              description: "Add a Grand Total row, and Grand Total columns when there are column fields (default: true)",
+            },
+            destinationSheet: {
+              type: "string",
+              description: "Name for the pivot table sheet (optional, auto-generated if not provided)",
+            },
+            destinationCell: {
+              type: "string",
+              description: "Top-left cell of the pivot table (default: A1)",
+            },
+          },
+          required: ["workbookId", "sourceSheet", "sourceRange", "rowFields", "dataFields"],
+        },
+      },
+      {
+        name: "refresh_pivot_table",
+        description: "Recompute a pivot table from its source data after the data changes, replacing its cells",
+        inputSchema: {
+          type: "object",
+          properties: {
+            workbookId: {
+              type: "string",
+              description: "The workbook ID",
+            },
+            name: {
+              type: "string",
+              description: "Pivot table to refresh (default: every pivot table in the workbook)",
+            },
+          },
+          required: ["workbookId"],
+        },
+      },
+    ],
+  };
+}
+
+async function handleToolCall(excelClient: ExcelClient, name: string, args: Record<string, unknown> | undefined) {
+  try {
+    switch (name) {
       // Workbook Management
       case "create_workbook": {
         const id = excelClient.createWorkbook();
         return {
-          content: [{ type: "text", text: JSON.stringify({ workbookId: id }) }],
+          content: [{ type: "text", text: JSON.stringify({ workbookId: id }) }],
+        };
+      }
+
+      case "open_workbook": {
+        const { filePath } = args as { filePath: string };
+        const id = await excelClient.openWorkbook(filePath);
+        return {
+          content: [{ type: "text", text: JSON.stringify({ workbookId: id, filePath }) }],
+        };
+      }
+
+      case "save_workbook": {
+        const { workbookId, filePath } = args as { workbookId: string; filePath?: string };
+        const savedPath = await excelClient.saveWorkbook(workbookId, filePath);
+        return {
+          content: [{ type: "text", text: JSON.stringify({ saved: true, filePath: savedPath }) }],
+        };
+      }
+
+      case "close_workbook": {
+        const { workbookId } = args as { workbookId: string };
+        excelClient.closeWorkbook(workbookId);
+        return {
+          content: [{ type: "text", text: JSON.stringify({ closed: true, workbookId }) }],
+        };
+      }
+
+      case "list_workbooks": {
+        const workbooks = excelClient.listWorkbooks();
+        return {
+          content: [{ type: "text", text: JSON.stringify(workbooks) }],
+        };
+      }
+
+      // Sheet Operations
+      case "list_sheets": {
+        const { workbookId } = args as { workbookId: string };
+        const sheets = excelClient.listSheets(workbookId);
+        return {
+          content: [{ type: "text", text: JSON.stringify(sheets) }],
+        };
+      }
+
+      case "create_sheet": {
+        const { workbookId, name: sheetName } = args as { workbookId: string; name?: string };
+        const result = excelClient.createSheet(workbookId, sheetName);
+        return {
+          content: [{ type: "text", text: JSON.stringify(result) }],
+        };
+      }
+
+      case "delete_sheet": {
+        const { workbookId, sheet } = args as { workbookId: string; sheet: string };
+        const sheetId = isNaN(Number(sheet)) ? sheet : Number(sheet);
+        excelClient.deleteSheet(workbookId, sheetId);
+        return {
+          content: [{ type: "text", text: JSON.stringify({ deleted: true, sheet }) }],
+        };
+      }
+
+      case "rename_sheet": {
+        const { workbookId, sheet, newName } = args as { workbookId: string; sheet: string; newName: string };
+        const sheetId = isNaN(Number(sheet)) ? sheet : Number(sheet);
+        excelClient.renameSheet(workbookId, sheetId, newName);
+        return {
+          content: [{ type: "text", text: JSON.stringify({ renamed: true, oldName: sheet, newName }) }],
+        };
+      }
+
+      case "copy_sheet": {
+        const { workbookId, sheet, newName, position } = args as {
+          workbookId: string;
+          sheet: string;
+          newName?: string;
+          position?: number;
+        };
+        const sheetId = isNaN(Number(sheet)) ? sheet : Number(sheet);
+        const result = excelClient.copySheet(workbookId, sheetId, newName, position);
+        return {
+          content: [{ type: "text", text: JSON.stringify({ copied: true, ...result }) }],
+        };
+      }
+
+      case "move_sheet": {
+        const { workbookId, sheet, position } = args as { workbookId: string; sheet: string; position: number };
+        const sheetId = isNaN(Number(sheet)) ? sheet : Number(sheet);
+        const result = excelClient.moveSheet(workbookId, sheetId, position);
+        return {
+          content: [{ type: "text", text: JSON.stringify({ moved: true, ...result }) }],
+        };
+      }
+
+      case "get_sheet_info": {
+        const { workbookId, sheet } = args as { workbookId: string; sheet: string };
+        const sheetId = isNaN(Number(sheet)) ? sheet : Number(sheet);
+        const info = excelClient.getSheetInfo(workbookId, sheetId);
+        return {
+          content: [{ type: "text", text: JSON.stringify(info) }],
+        };
+      }
+
+      // Cell Operations
+      case "read_cell": {
+        const { workbookId, sheet, cell } = args as { workbookId: string; sheet: string; cell: string };
+        const sheetId = isNaN(Number(sheet)) ? sheet : Number(sheet);
+        const result = excelClient.readCell(workbookId, sheetId, cell);
+        return {
+          content: [{ type: "text", text: JSON.stringify(result) }],
+        };
+      }
+
+      case "write_cell": {
+        const { workbookId, sheet, cell, value } = args as {
+          workbookId: string;
+          sheet: string;
+          cell: string;
+          value: string | number | boolean;
+        };
+        const sheetId = isNaN(Number(sheet)) ? sheet : Number(sheet);
+        excelClient.writeCell(workbookId, sheetId, cell, value);
+        return {
+          content: [{ type: "text", text: JSON.stringify({ written: true, cell, value }) }],
+        };
+      }
+
+      case "read_range": {
+        const { workbookId, sheet, range } = args as { workbookId: string; sheet: string; range: string };
+        const sheetId = isNaN(Number(sheet)) ? sheet : Number(sheet);
+        const result = excelClient.readRange(workbookId, sheetId, range);
+        return {
+          content: [{ type: "text", text: JSON.stringify(result) }],
+        };
+      }
+
+      case "write_range": {
+        const { workbookId, sheet, startCell, values } = args as {
+          workbookId: string;
+          sheet: string;
+          startCell: string;
+          values: Array<Array<string | number | boolean | null>>;
+        };
+        const sheetId = isNaN(Number(sheet)) ? sheet : Number(sheet);
+        excelClient.writeRange(workbookId, sheetId, startCell, values);
+        return {
+          content: [{ type: "text", text: JSON.stringify({ written: true, startCell, rowCount: values.length }) }],
+        };
+      }
+
+      case "list_columns": {
+        const { workbookId, sheet } = args as { workbookId: string; sheet: string };
+        const sheetId = isNaN(Number(sheet)) ? sheet : Number(sheet);
+        const columns = excelClient.listColumns(workbookId, sheetId);
+        return {
+          content: [{ type: "text", text: JSON.stringify(columns) }],
+        };
+      }
+
+      // Rows and Columns
+      case "insert_rows": {
+        const { workbookId, sheet, row, count } = args as { workbookId: string; sheet: string; row: number; count?: number };
+        const sheetId = isNaN(Number(sheet)) ? sheet : Number(sheet);
+        excelClient.insertRows(workbookId, sheetId, row, count);
+        return {
+          content: [{ type: "text", text: JSON.stringify({ inserted: true, sheet, row, count: count ?? 1 }) }],
+        };
+      }
+
+      case "delete_rows": {
+        const { workbookId, sheet, row, count } = args as { workbookId: string; sheet: string; row: number; count?: number };
+        const sheetId = isNaN(Number(sheet)) ? sheet : Number(sheet);
+        excelClient.deleteRows(workbookId, sheetId, row, count);
+        return {
+          content: [{ type: "text", text: JSON.stringify({ deleted: true, sheet, row, count: count ?? 1 }) }],
+        };
+      }
+
+      case "insert_columns": {
+        const { workbookId, sheet, column, count } = args as { workbookId: string; sheet: string; column: string; count?: number };
+        const sheetId = isNaN(Number(sheet)) ? sheet : Number(sheet);
+        const columnId = isNaN(Number(column)) ? column : Number(column);
+        excelClient.insertColumns(workbookId, sheetId, columnId, count);
+        return {
+          content: [{ type: "text", text: JSON.stringify({ inserted: true, sheet, column, count: count ?? 1 }) }],
+        };
+      }
+
+      case "delete_columns": {
+        const { workbookId, sheet, column, count } = args as { workbookId: string; sheet: string; column: string; count?: number };
+        const sheetId = isNaN(Number(sheet)) ? sheet : Number(sheet);
+        const columnId = isNaN(Number(column)) ? column : Number(column);
+        excelClient.deleteColumns(workbookId, sheetId, columnId, count);
+        return {
+          content: [{ type: "text", text: JSON.stringify({ deleted: true, sheet, column, count: count ?? 1 }) }],
         };
       }
 
-      case "open_workbook": {
-        const { filePath } = args as { filePath: string };
-        const id = await excelClient.openWorkbook(filePath);
+      // Sorting
+      case "sort_range": {
+        const { workbookId, sheet, range, hasHeader, keys } = args as {
+          workbookId: string;
+          sheet: string;
+          range: string;
+          hasHeader?: boolean;
+          keys: SortKey[];
+        };
+        const sheetId = isNaN(Number(sheet)) ? sheet : Number(sheet);
+        const result = excelClient.sortRange(workbookId, sheetId, range, { hasHeader, keys });
         return {
-          content: [{ type: "text", text: JSON.stringify({ workbookId: id, filePath }) }],
+          content: [{ type: "text", text: JSON.stringify({ sorted: true, ...result }) }],
         };
       }
 
-      case "save_workbook": {
-        const { workbookId, filePath } = args as { workbookId: string; filePath?: string };
-        const savedPath = await excelClient.saveWorkbook(workbookId, filePath);
+      // Queries
+      case "query_sheet": {
+        const { workbookId, sheet, range, select, where, groupBy, orderBy, limit, offset } = args as {
+          workbookId: string;
+          sheet: string;
+          range?: string;
+          select?: QuerySpec["select"];
+          where?: QuerySpec["where"];
+          groupBy?: string[];
+          orderBy?: QuerySpec["orderBy"];
+          limit?: number;
+          offset?: number;
+        };
+        const sheetId = isNaN(Number(sheet)) ? sheet : Number(sheet);
+        const result = excelClient.querySheet(workbookId, sheetId, { range, select, where, groupBy, orderBy, limit, offset });
         return {
-          content: [{ type: "text", text: JSON.stringify({ saved: true, filePath: savedPath }) }],
+          content: [{ type: "text", text: JSON.stringify(result) }],
         };
       }
 
-      case "close_workbook": {
-        const { workbookId } = args as { workbookId: string };
-        excelClient.closeWorkbook(workbookId);
+      // Find and Replace
+      case "find": {
+        const { workbookId, query, sheet, matchCase, wholeCell, regex, lookIn, limit } = args as {
+          workbookId: string;
+          query: string;
+          sheet?: string;
+          matchCase?: boolean;
+          wholeCell?: boolean;
+          regex?: boolean;
+          lookIn?: FindOptions["lookIn"];
+          limit?: number;
+        };
+        const sheetId = sheet === undefined ? undefined : isNaN(Number(sheet)) ? sheet : Number(sheet);
+        const matches = excelClient.find(workbookId, query, { sheet: sheetId, matchCase, wholeCell, regex, lookIn, limit });
         return {
-          content: [{ type: "text", text: JSON.stringify({ closed: true, workbookId }) }],
+          content: [{ type: "text", text: JSON.stringify({ count: matches.length, matches }) }],
         };
       }
 
-      case "list_workbooks": {
-        const workbooks = excelClient.listWorkbooks();
+      case "replace": {
+        const { workbookId, query, replacement, sheet, matchCase, wholeCell, regex, lookIn } = args as {
+          workbookId: string;
+          query: string;
+          replacement: string;
+          sheet?: string;
+          matchCase?: boolean;
+          wholeCell?: boolean;
+          regex?: boolean;
+          lookIn?: FindOptions["lookIn"];
+        };
+        const sheetId = sheet === undefined ? undefined : isNaN(Number(sheet)) ? sheet : Number(sheet);
+        const result = excelClient.replace(workbookId, query, replacement, { sheet: sheetId, matchCase, wholeCell, regex, lookIn });
         return {
-          content: [{ type: "text", text: JSON.stringify(workbooks) }],
+          content: [{ type: "text", text: JSON.stringify(result) }],
         };
       }
 
-      // Sheet Operations
-      case "list_sheets": {
+      // History
+      case "undo": {
         const { workbookId } = args as { workbookId: string };
-        const sheets = excelClient.listSheets(workbookId);
+        const result = excelClient.undo(workbookId);
         return {
-          content: [{ type: "text", text: JSON.stringify(sheets) }],
+          content: [{ type: "text", text: JSON.stringify(result) }],
         };
       }
 
-      case "create_sheet": {
-        const { workbookId, name: sheetName } = args as { workbookId: string; name?: string };
-        const result = excelClient.createSheet(workbookId, sheetName);
+      case "redo": {
+        const { workbookId } = args as { workbookId: string };
+        const result = excelClient.redo(workbookId);
         return {
           content: [{ type: "text", text: JSON.stringify(result) }],
         };
       }
 
-      case "delete_sheet": {
-        const { workbookId, sheet } = args as { workbookId: string; sheet: string };
-        const sheetId = isNaN(Number(sheet)) ? sheet : Number(sheet);
-        excelClient.deleteSheet(workbookId, sheetId);
+      case "create_checkpoint": {
+        const { workbookId, name } = args as { workbookId: string; name: string };
+        const result = excelClient.createCheckpoint(workbookId, name);
         return {
-          content: [{ type: "text", text: JSON.stringify({ deleted: true, sheet }) }],
+          content: [{ type: "text", text: JSON.stringify(result) }],
         };
       }
 
-      case "rename_sheet": {
-        const { workbookId, sheet, newName } = args as { workbookId: string; sheet: string; newName: string };
-        const sheetId = isNaN(Number(sheet)) ? sheet : Number(sheet);
-        excelClient.renameSheet(workbookId, sheetId, newName);
+      case "restore_checkpoint": {
+        const { workbookId, name } = args as { workbookId: string; name: string };
+        excelClient.restoreCheckpoint(workbookId, name);
         return {
-          content: [{ type: "text", text: JSON.stringify({ renamed: true, oldName: sheet, newName }) }],
+          content: [{ type: "text", text: JSON.stringify({ restored: true, name }) }],
         };
       }
 
-      case "get_sheet_info": {
-        const { workbookId, sheet } = args as { workbookId: string; sheet: string };
+      case "list_history": {
+        const { workbookId } = args as { workbookId: string };
+        const history = excelClient.listHistory(workbookId);
+        return {
+          content: [{ type: "text", text: JSON.stringify(history) }],
+        };
+      }
+
+      // Comparison
+      case "diff_workbooks": {
+        const { workbookId, baseWorkbookId, includeStyles, markdown, limit } = args as {
+          workbookId: string;
+          baseWorkbookId?: string;
+          includeStyles?: boolean;
+          markdown?: boolean;
+          limit?: number;
+        };
+        const diff = await excelClient.diffWorkbooks(workbookId, baseWorkbookId, { includeStyles, markdown, limit });
+        return {
+          content: [{ type: "text", text: JSON.stringify(diff) }],
+        };
+      }
+
+      // Formatting
+      case "format_range": {
+        const { workbookId, sheet, range, font, fill, border, alignment, numFmt } = args as {
+          workbookId: string;
+          sheet: string;
+          range: string;
+          font?: StyleSpec["font"];
+          fill?: StyleSpec["fill"];
+          border?: StyleSpec["border"];
+          alignment?: StyleSpec["alignment"];
+          numFmt?: string;
+        };
         const sheetId = isNaN(Number(sheet)) ? sheet : Number(sheet);
-        const info = excelClient.getSheetInfo(workbookId, sheetId);
+        const result = excelClient.formatRange(workbookId, sheetId, range, { font, fill, border, alignment, numFmt });
         return {
-          content: [{ type: "text", text: JSON.stringify(info) }],
+          content: [{ type: "text", text: JSON.stringify({ formatted: true, ...result }) }],
         };
       }
 
-      // Cell Operations
-      case "read_cell": {
+      case "get_cell_style": {
         const { workbookId, sheet, cell } = args as { workbookId: string; sheet: string; cell: string };
         const sheetId = isNaN(Number(sheet)) ? sheet : Number(sheet);
-        const result = excelClient.readCell(workbookId, sheetId, cell);
+        const style = excelClient.getCellStyle(workbookId, sheetId, cell);
         return {
-          content: [{ type: "text", text: JSON.stringify(result) }],
+          content: [{ type: "text", text: JSON.stringify({ cell, ...style }) }],
         };
       }
 
-      case "write_cell": {
-        const { workbookId, sheet, cell, value } = args as {
+      case "add_conditional_formatting": {
+        const { workbookId, sheet, range, ...rule } = args as {
           workbookId: string;
           sheet: string;
-          cell: string;
-          value: string | number | boolean;
+          range: string;
+          type: ConditionalFormatSpec["type"];
         };
         const sheetId = isNaN(Number(sheet)) ? sheet : Number(sheet);
-        excelClient.writeCell(workbookId, sheetId, cell, value);
+        const result = excelClient.addConditionalFormatting(workbookId, sheetId, range, rule as ConditionalFormatSpec);
         return {
-          content: [{ type: "text", text: JSON.stringify({ written: true, cell, value }) }],
+          content: [{ type: "text", text: JSON.stringify({ added: true, type: rule.type, ...result }) }],
         };
       }
 
-      case "read_range": {
-        const { workbookId, sheet, range } = args as { workbookId: string; sheet: string; range: string };
+      case "list_conditional_formatting": {
+        const { workbookId, sheet } = args as { workbookId: string; sheet?: string };
+        const sheetId = sheet === undefined ? undefined : isNaN(Number(sheet)) ? sheet : Number(sheet);
+        const rules = excelClient.listConditionalFormatting(workbookId, sheetId);
+        return {
+          content: [{ type: "text", text: JSON.stringify(rules) }],
+        };
+      }
+
+      case "remove_conditional_formatting": {
+        const { workbookId, sheet, range, priority } = args as {
+          workbookId: string;
+          sheet: string;
+          range?: string;
+          priority?: number;
+        };
         const sheetId = isNaN(Number(sheet)) ? sheet : Number(sheet);
-        const result = excelClient.readRange(workbookId, sheetId, range);
+        const result = excelClient.removeConditionalFormatting(workbookId, sheetId, { range, priority });
         return {
           content: [{ type: "text", text: JSON.stringify(result) }],
         };
       }
 
-      case "write_range": {
-        const { workbookId, sheet, startCell, values } = args as {
+      // Data Validation
+      case "set_data_validation": {
+        const { workbookId, sheet, range, ...spec } = args as {
           workbookId: string;
           sheet: string;
-          startCell: string;
-          values: Array<Array<string | number | boolean | null>>;
+          range: string;
+          type: DataValidationSpec["type"];
         };
         const sheetId = isNaN(Number(sheet)) ? sheet : Number(sheet);
-        excelClient.writeRange(workbookId, sheetId, startCell, values);
+        const result = excelClient.setDataValidation(workbookId, sheetId, range, spec as DataValidationSpec);
         return {
-          content: [{ type: "text", text: JSON.stringify({ written: true, startCell, rowCount: values.length }) }],
+          content: [{ type: "text", text: JSON.stringify({ validated: true, type: spec.type, ...result }) }],
         };
       }
 
-      case "list_columns": {
+      case "list_data_validations": {
         const { workbookId, sheet } = args as { workbookId: string; sheet: string };
         const sheetId = isNaN(Number(sheet)) ? sheet : Number(sheet);
-        const columns = excelClient.listColumns(workbookId, sheetId);
+        const validations = excelClient.listDataValidations(workbookId, sheetId);
         return {
-          content: [{ type: "text", text: JSON.stringify(columns) }],
+          content: [{ type: "text", text: JSON.stringify(validations) }],
+        };
+      }
+
+      case "clear_data_validation": {
+        const { workbookId, sheet, range } = args as { workbookId: string; sheet: string; range: string };
+        const sheetId = isNaN(Number(sheet)) ? sheet : Number(sheet);
+        const result = excelClient.clearDataValidation(workbookId, sheetId, range);
+        return {
+          content: [{ type: "text", text: JSON.stringify({ range, ...result }) }],
+        };
+      }
+
+      case "check_data_validation": {
+        const { workbookId, sheet, range } = args as { workbookId: string; sheet: string; range?: string };
+        const sheetId = isNaN(Number(sheet)) ? sheet : Number(sheet);
+        const result = excelClient.checkDataValidation(workbookId, sheetId, range);
+        return {
+          content: [{ type: "text", text: JSON.stringify({ valid: result.violations.length === 0, ...result }) }],
+        };
+      }
+
+      // Named Ranges
+      case "define_name": {
+        const { workbookId, name: definedName, refersTo, scope } = args as {
+          workbookId: string;
+          name: string;
+          refersTo: string;
+          scope?: string;
+        };
+        const scopeId = scope === undefined ? undefined : isNaN(Number(scope)) ? scope : Number(scope);
+        const result = excelClient.defineName(workbookId, definedName, refersTo, scopeId);
+        return {
+          content: [{ type: "text", text: JSON.stringify({ defined: true, ...result }) }],
+        };
+      }
+
+      case "update_name": {
+        const { workbookId, name: definedName, refersTo, scope } = args as {
+          workbookId: string;
+          name: string;
+          refersTo: string;
+          scope?: string;
+        };
+        const scopeId = scope === undefined ? undefined : isNaN(Number(scope)) ? scope : Number(scope);
+        const result = excelClient.updateName(workbookId, definedName, refersTo, scopeId);
+        return {
+          content: [{ type: "text", text: JSON.stringify({ updated: true, ...result }) }],
+        };
+      }
+
+      case "list_names": {
+        const { workbookId } = args as { workbookId: string };
+        const names = excelClient.listNames(workbookId);
+        return {
+          content: [{ type: "text", text: JSON.stringify(names) }],
+        };
+      }
+
+      case "delete_name": {
+        const { workbookId, name: definedName, scope } = args as { workbookId: string; name: string; scope?: string };
+        const scopeId = scope === undefined ? undefined : isNaN(Number(scope)) ? scope : Number(scope);
+        excelClient.deleteName(workbookId, definedName, scopeId);
+        return {
+          content: [{ type: "text", text: JSON.stringify({ deleted: true, name: definedName }) }],
+        };
+      }
+
+      // Tables
+      case "create_table": {
+        const { workbookId, sheet, range, name: tableName, headerRow, totalsRow, totals, style } = args as {
+          workbookId: string;
+          sheet: string;
+          range: string;
+          name: string;
+          headerRow?: boolean;
+          totalsRow?: boolean;
+          totals?: TableSpec["totals"];
+          style?: TableSpec["style"];
+        };
+        const sheetId = isNaN(Number(sheet)) ? sheet : Number(sheet);
+        const table = excelClient.createTable(workbookId, sheetId, range, { name: tableName, headerRow, totalsRow, totals, style });
+        return {
+          content: [{ type: "text", text: JSON.stringify({ created: true, ...table }) }],
+        };
+      }
+
+      case "list_tables": {
+        const { workbookId, sheet } = args as { workbookId: string; sheet?: string };
+        const sheetId = sheet === undefined ? undefined : isNaN(Number(sheet)) ? sheet : Number(sheet);
+        const tables = excelClient.listTables(workbookId, sheetId);
+        return {
+          content: [{ type: "text", text: JSON.stringify(tables) }],
+        };
+      }
+
+      case "append_table_rows": {
+        const { workbookId, table, rows } = args as {
+          workbookId: string;
+          table: string;
+          rows: Array<Array<string | number | boolean | null> | Record<string, string | number | boolean | null>>;
+        };
+        const result = excelClient.appendTableRows(workbookId, table, rows);
+        return {
+          content: [{ type: "text", text: JSON.stringify({ appended: true, ...result }) }],
+        };
+      }
+
+      case "read_table": {
+        const { workbookId, table } = args as { workbookId: string; table: string };
+        const result = excelClient.readTable(workbookId, table);
+        return {
+          content: [{ type: "text", text: JSON.stringify(result) }],
         };
       }
 
@@ -633,26 +2501,60 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case "recalculate": {
-        const { workbookId } = args as { workbookId: string };
-        const result = excelClient.recalculate(workbookId);
+        const { workbookId, compareCached, limit } = args as { workbookId: string; compareCached?: boolean; limit?: number };
+        const result = excelClient.recalculate(workbookId, { compareCached, limit });
         return {
           content: [{ type: "text", text: JSON.stringify({ recalculated: true, ...result }) }],
         };
       }
 
+      case "trace_precedents":
+      case "trace_dependents": {
+        const { workbookId, sheet, cell, depth } = args as { workbookId: string; sheet: string; cell?: string; depth?: number };
+        const sheetId = isNaN(Number(sheet)) ? sheet : Number(sheet);
+        const result =
+          cell === undefined
+            ? excelClient.getSheetStructure(workbookId, sheetId)
+            : name === "trace_precedents"
+              ? excelClient.tracePrecedents(workbookId, sheetId, cell, depth)
+              : excelClient.traceDependents(workbookId, sheetId, cell, depth);
+        return {
+          content: [{ type: "text", text: JSON.stringify(result) }],
+        };
+      }
+
+      case "audit_formulas": {
+        const { workbookId, sheet, limit } = args as { workbookId: string; sheet?: string; limit?: number };
+        const sheetId = sheet === undefined ? undefined : isNaN(Number(sheet)) ? sheet : Number(sheet);
+        const audit = excelClient.auditFormulas(workbookId, { sheet: sheetId, limit });
+        return {
+          content: [{ type: "text", text: JSON.stringify(audit) }],
+        };
+      }
+
       // Charts
       case "create_chart": {
-        const { workbookId, sheet, type, dataRange, title } = args as {
+        const { workbookId, sheet, type, dataRange, title, position } = args as {
           workbookId: string;
           sheet: string;
           type: "bar" | "line" | "pie" | "scatter";
           dataRange: string;
           title?: string;
+          position?: { col: number; row: number };
         };
         const sheetId = isNaN(Number(sheet)) ? sheet : Number(sheet);
-        excelClient.createChart(workbookId, sheetId, { type, dataRange, title });
+        const chart = excelClient.createChart(workbookId, sheetId, { type, dataRange, title, position });
+        return {
+          content: [{ type: "text", text: JSON.stringify({ created: true, ...chart }) }],
+        };
+      }
+
+      case "list_charts": {
+        const { workbookId, sheet } = args as { workbookId: string; sheet?: string };
+        const sheetId = sheet === undefined ? undefined : isNaN(Number(sheet)) ? sheet : Number(sheet);
+        const charts = excelClient.listCharts(workbookId, sheetId);
         return {
-          content: [{ type: "text", text: JSON.stringify({ created: true, type, dataRange, title }) }],
+          content: [{ type: "text", text: JSON.stringify(charts) }],
         };
       }
 
@@ -667,27 +2569,63 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
       // Pivot Tables
       case "create_pivot_table": {
-        const { workbookId, sourceSheet, sourceRange, rowFields, dataFields, destinationSheet } = args as {
+        const {
+          workbookId,
+          sourceSheet,
+          sourceRange,
+          name,
+          rowFields,
+          columnFields,
+          dataFields,
+          filters,
+          sort,
+          subtotals,
+          grandTotals,
+          destinationSheet,
+          destinationCell,
+        } = args as {
           workbookId: string;
           sourceSheet: string;
           sourceRange: string;
+          name?: string;
           rowFields: string[];
-          dataFields: Array<{ field: string; aggregation: "sum" | "count" | "average" | "min" | "max" }>;
+          columnFields?: string[];
+          dataFields: PivotTableSpec["dataFields"];
+          filters?: PivotTableSpec["filters"];
+          sort?: PivotTableSpec["sort"];
+          subtotals?: boolean;
+          grandTotals?: boolean;
           destinationSheet?: string;
+          destinationCell?: string;
         };
         const sheetId = isNaN(Number(sourceSheet)) ? sourceSheet : Number(sourceSheet);
         const result = excelClient.createPivotTable(workbookId, sheetId, {
+          name,
           sourceRange,
           rowFields,
+          columnFields,
           dataFields,
+          filters,
+          sort,
+          subtotals,
+          grandTotals,
           destinationSheet,
+          destinationCell,
         });
         return {
           content: [{ type: "text", text: JSON.stringify({ created: true, ...result }) }],
         };
       }
 
-      // Import
+      case "refresh_pivot_table": {
+        const { workbookId, name } = args as { workbookId: string; name?: string };
+        const refreshed = excelClient.refreshPivotTable(workbookId, name);
+        return {
+          content: [{ type: "text", text: JSON.stringify({ refreshed }) }],
+        };
+      }
+
+      // Import and Export
       case "import_markdown_table": {
         const { markdown, workbookId, sheetName } = args as {
           markdown: string;
@@ -700,6 +2638,101 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case "import_csv": {
+        const { path, content, workbookId, sheet, startCell, delimiter, quote, encoding, header, inferTypes, formulas } = args as {
+          path?: string;
+          content?: string;
+          workbookId?: string;
+          sheet?: string;
+          startCell?: string;
+          delimiter?: string;
+          quote?: string;
+          encoding?: CsvImportOptions["encoding"];
+          header?: boolean;
+          inferTypes?: boolean;
+          formulas?: boolean;
+        };
+        const result = await excelClient.importCsv({
+          path,
+          content,
+          workbookId,
+          sheet,
+          startCell,
+          delimiter,
+          quote,
+          encoding,
+          header,
+          inferTypes,
+          formulas,
+        });
+        return {
+          content: [{ type: "text", text: JSON.stringify({ imported: true, ...result }) }],
+        };
+      }
+
+      case "import_json": {
+        const { records, workbookId, sheet, startCell, columns, headers, arrays, arraySeparator, append, formulas } = args as {
+          records: JsonImportOptions["records"];
+          workbookId?: string;
+          sheet?: string;
+          startCell?: string;
+          columns?: string[];
+          headers?: Record<string, string>;
+          arrays?: JsonImportOptions["arrays"];
+          arraySeparator?: string;
+          append?: boolean;
+          formulas?: boolean;
+        };
+        const result = excelClient.importJson({
+          records,
+          workbookId,
+          sheet,
+          startCell,
+          columns,
+          headers,
+          arrays,
+          arraySeparator,
+          append,
+          formulas,
+        });
+        return {
+          content: [{ type: "text", text: JSON.stringify({ imported: true, ...result }) }],
+        };
+      }
+
+      case "export_csv": {
+        const { workbookId, sheet, range, path, delimiter, quote, encoding, formulas } = args as {
+          workbookId: string;
+          sheet: string;
+          range?: string;
+          path?: string;
+          delimiter?: string;
+          quote?: string;
+          encoding?: CsvExportOptions["encoding"];
+          formulas?: boolean;
+        };
+        const sheetId = isNaN(Number(sheet)) ? sheet : Number(sheet);
+        const result = await excelClient.exportCsv(workbookId, sheetId, { range, path, delimiter, quote, encoding, formulas });
+        return {
+          content: [{ type: "text", text: JSON.stringify(result) }],
+        };
+      }
+
+      case "export_range": {
+        const { workbookId, sheet, range, format, header } = args as {
+          workbookId: string;
+          sheet: string;
+          range?: string;
+          format: "markdown" | "html" | "json-records";
+          header?: boolean;
+        };
+        const sheetId = isNaN(Number(sheet)) ? sheet : Number(sheet);
+        const result = excelClient.exportRange(workbookId, sheetId, format, range, { header });
+        return {
+          content: [{ type: "text", text: typeof result === "string" ? result : JSON.stringify(result) }],
+        };
+      }
+
       default:
         throw new Error(`Unknown tool: ${name}`);
     }
@@ -714,11 +2747,165 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       isError: true,
     };
   }
-});
+}
+
+// A server with its own ExcelClient, so workbooks are never shared between sessions
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: "excel-mcp",
+      version: "1.0.0",
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true, listChanged: true },
+        prompts: {},
+      },
+    }
+  );
+  const excelClient = new ExcelClient();
+
+  // Subscribed URIs with the workbook version and text last sent (null when unreadable).
+  // Formulas can read any sheet of their workbook, so versions are per workbook.
+  const subscriptions = new Map<string, { workbookId: string; version?: number; text: string | null }>();
+
+  const renderSubscribed = async (uri: string): Promise<string | null> => {
+    try {
+      return (await readSheetResource(excelClient, uri)).text;
+    } catch {
+      return null;
+    }
+  };
+
+  const listResourceUris = () => listSheetResources(excelClient).map(resource => resource.uri).join("\n");
+  let listedResources = listResourceUris();
+
+  // Notifications are best effort; a client that went away must not fail the tool call
+  const sendNotification = async (send: () => Promise<void>): Promise<void> => {
+    try {
+      await send();
+    } catch (error) {
+      console.error("Failed to send resource notification:", error);
+    }
+  };
+
+  // After a tool call, tell subscribers which sheets changed and clients whether the sheet list did
+  const notifyResourceChanges = async (): Promise<void> => {
+    for (const [uri, subscription] of subscriptions) {
+      const version = excelClient.getWorkbookVersion(subscription.workbookId);
+      if (version !== undefined && version === subscription.version) continue;
+
+      const text = await renderSubscribed(uri);
+      const changed = text !== subscription.text;
+      subscriptions.set(uri, { ...subscription, version, text });
+      if (changed) {
+        await sendNotification(() => server.sendResourceUpdated({ uri }));
+      }
+    }
+
+    const resources = listResourceUris();
+    if (resources !== listedResources) {
+      listedResources = resources;
+      await sendNotification(() => server.sendResourceListChanged());
+    }
+  };
+
+  server.setRequestHandler(ListToolsRequestSchema, listTools);
+
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+    const result = await handleToolCall(excelClient, name, args);
+
+    if (!result.isError) {
+      await notifyResourceChanges();
+    }
+    return result;
+  });
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return { resources: listSheetResources(excelClient) };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: RESOURCE_TEMPLATES };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return { contents: [await readSheetResource(excelClient, request.params.uri)] };
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const { workbookId } = parseSheetResourceUri(uri);
+    const version = excelClient.getWorkbookVersion(workbookId);
+    subscriptions.set(uri, { workbookId, version, text: await renderSubscribed(uri) });
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: PROMPTS };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    return getPrompt(excelClient, request.params.name, request.params.arguments);
+  });
+
+  return server;
+}
+
+// Transport settings from the command line, falling back to the environment:
+//   --http / EXCEL_MCP_TRANSPORT=http   serve Streamable HTTP (and SSE) instead of stdio
+//   --host / EXCEL_MCP_HOST             interface to listen on (default 127.0.0.1)
+//   --port / EXCEL_MCP_PORT             port to listen on (default 3000)
+//   EXCEL_MCP_AUTH_TOKEN                bearer token required on every HTTP request
+function parseOptions(argv: string[]): {
+  http: boolean;
+  host: string;
+  port: number;
+  authToken?: string;
+  allowedHosts?: string[];
+} {
+  const flag = (name: string): string | undefined => {
+    const index = argv.indexOf(`--${name}`);
+    if (index >= 0) return argv[index + 1];
+    return argv.find(arg => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+  };
+
+  const port = Number(flag("port") ?? process.env.EXCEL_MCP_PORT ?? 3000);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port: ${flag("port") ?? process.env.EXCEL_MCP_PORT}`);
+  }
+  return {
+    http: argv.includes("--http") || process.env.EXCEL_MCP_TRANSPORT?.toLowerCase() === "http",
+    host: flag("host") ?? process.env.EXCEL_MCP_HOST ?? "127.0.0.1",
+    port,
+    authToken: process.env.EXCEL_MCP_AUTH_TOKEN || undefined,
+    allowedHosts: (flag("allowed-hosts") ?? process.env.EXCEL_MCP_ALLOWED_HOSTS)
+      ?.split(",")
+      .map(host => host.trim())
+      .filter(Boolean),
+  };
+}
 
 async function main() {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
+  const options = parseOptions(process.argv.slice(2));
+  if (!options.http) {
+    const transport = new StdioServerTransport();
+    await createServer().connect(transport);
+    return;
+  }
+
+  await startHttpServer(createServer, options);
+  console.error(`Excel MCP server listening on http://${options.host}:${options.port}/mcp (SSE at /sse)`);
+  if (!options.authToken) {
+    console.error("Warning: EXCEL_MCP_AUTH_TOKEN is not set, so requests are not authenticated");
+  }
 }
 
 main().catch((error) => {
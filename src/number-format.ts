@@ -0,0 +1,258 @@
+// Renders values the way Excel displays them with a number format code:
+// positive;negative;zero;text sections, 0 # ? placeholders, thousands
+// separators and scaling, percent, scientific notation, quoted and escaped
+// literals, and date/time codes. Fractions and conditional sections fall
+// back to General.
+
+type Token = { literal: string } | { code: string };
+
+const DATE_CODE = /^(y+|m+|d+|h+|s+|\[h+\]|\[m+\]|\[s+\]|am\/pm|a\/p)$/i;
+
+// Split a format into its ; separated sections, ignoring ; inside quotes and brackets
+function splitSections(format: string): string[] {
+  const sections: string[] = [];
+  let current = "";
+  for (let i = 0; i < format.length; i++) {
+    const char = format[i];
+    if (char === '"') {
+      const end = format.indexOf('"', i + 1);
+      const stop = end < 0 ? format.length : end;
+      current += format.slice(i, stop + 1);
+      i = stop;
+    } else if (char === "\\" || char === "_" || char === "*") {
+      current += format.slice(i, i + 2);
+      i++;
+    } else if (char === "[") {
+      const end = format.indexOf("]", i);
+      const stop = end < 0 ? format.length : end;
+      current += format.slice(i, stop + 1);
+      i = stop;
+    } else if (char === ";") {
+      sections.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  sections.push(current);
+  return sections;
+}
+
+// Literal text and format codes, in order. Colors and locale tags are dropped.
+function tokenize(section: string): Token[] {
+  const tokens: Token[] = [];
+  for (let i = 0; i < section.length; i++) {
+    const char = section[i];
+    const rest = section.slice(i);
+    if (char === '"') {
+      const end = section.indexOf('"', i + 1);
+      const stop = end < 0 ? section.length : end;
+      tokens.push({ literal: section.slice(i + 1, stop) });
+      i = stop;
+    } else if (char === "\\") {
+      tokens.push({ literal: section[i + 1] ?? "" });
+      i++;
+    } else if (char === "_") {
+      // Padding the width of the next character
+      tokens.push({ literal: " " });
+      i++;
+    } else if (char === "*") {
+      // Repeat-to-fill has no width to fill here
+      i++;
+    } else if (char === "[") {
+      const end = section.indexOf("]", i);
+      const stop = end < 0 ? section.length : end;
+      const tag = section.slice(i, stop + 1);
+      if (DATE_CODE.test(tag)) {
+        tokens.push({ code: tag.toLowerCase() });
+      } else if (tag.startsWith("[$")) {
+        // Currency tags like [$€-407] show their symbol
+        tokens.push({ literal: tag.slice(2, -1).split("-")[0] });
+      }
+      i = stop;
+    } else if (/^(am\/pm|a\/p)/i.test(rest)) {
+      const code = /^am\/pm/i.test(rest) ? "am/pm" : "a/p";
+      tokens.push({ code });
+      i += code.length - 1;
+    } else if (/[ymdhs]/i.test(char)) {
+      let end = i;
+      while (section[end + 1]?.toLowerCase() === char.toLowerCase()) end++;
+      tokens.push({ code: section.slice(i, end + 1).toLowerCase() });
+      i = end;
+    } else if (/[0#?.,%eE+\-@/]/.test(char)) {
+      // E is only scientific notation when followed by a sign
+      if (/e/i.test(char) && !/[+-]/.test(section[i + 1] ?? "")) {
+        tokens.push({ literal: char });
+      } else if (/[+-]/.test(char) && !/e/i.test(section[i - 1] ?? "")) {
+        tokens.push({ literal: char });
+      } else {
+        tokens.push({ code: char });
+      }
+    } else {
+      tokens.push({ literal: char });
+    }
+  }
+  return tokens;
+}
+
+function isDateSection(tokens: Token[]): boolean {
+  return tokens.some(token => "code" in token && DATE_CODE.test(token.code));
+}
+
+// Excel's General format: up to 11 characters, switching to scientific for very large or small numbers
+function formatGeneral(value: number): string {
+  if (value === 0) return "0";
+  const magnitude = Math.abs(value);
+  if (magnitude >= 1e11 || magnitude < 1e-9) {
+    const [mantissa, exponent] = value.toExponential(5).split("e");
+    const trimmed = mantissa.replace(/\.?0+$/, "");
+    const power = Number(exponent);
+    return `${trimmed}E${power < 0 ? "-" : "+"}${String(Math.abs(power)).padStart(2, "0")}`;
+  }
+  return String(Number(value.toPrecision(10)));
+}
+
+function literalText(token: Token): string {
+  return "literal" in token ? token.literal : token.code === "%" ? "%" : "";
+}
+
+function formatNumberSection(value: number, tokens: Token[], showSign: boolean): string {
+  const codes = tokens.filter((token): token is { code: string } => "code" in token).map(token => token.code);
+  // A section without digit placeholders is shown as its literal text (e.g. "-" for zero)
+  if (!codes.some(code => /[0#?]/.test(code))) return tokens.map(literalText).join("");
+  if (codes.includes("/")) return formatGeneral(value);
+
+  let scaled = Math.abs(value) * 100 ** codes.filter(code => code === "%").length;
+  const pattern = codes.filter(code => code !== "%" && code !== "@").join("");
+  const [mantissaPattern, exponentPattern] = pattern.split(/[eE][+-]/);
+
+  // Commas right after the last digit placeholder divide by 1000 each
+  const trailingCommas = /,+$/.exec(mantissaPattern.replace(/\.[0#?]*$/, ""))?.[0].length ?? 0;
+  scaled /= 1000 ** trailingCommas;
+  const [integerPattern, decimalPattern = ""] = mantissaPattern.replace(/,+(?=\.|$)/, "").split(".");
+  const maxDecimals = (decimalPattern.match(/[0#?]/g) ?? []).length;
+  const minDecimals = (decimalPattern.match(/[0?]/g) ?? []).length;
+  const minIntegerDigits = (integerPattern.match(/[0?]/g) ?? []).length;
+  const grouped = integerPattern.includes(",");
+
+  let exponentText = "";
+  if (exponentPattern !== undefined) {
+    const exponent = scaled === 0 ? 0 : Math.floor(Math.log10(scaled)) - Math.max(0, minIntegerDigits - 1);
+    scaled /= 10 ** exponent;
+    const sign = pattern.match(/[eE]([+-])/)![1];
+    exponentText = `E${exponent < 0 ? "-" : sign === "+" ? "+" : ""}${String(Math.abs(exponent)).padStart((exponentPattern.match(/0/g) ?? []).length, "0")}`;
+  }
+
+  let [integerText, decimalText = ""] = scaled.toFixed(maxDecimals).split(".");
+  while (decimalText.length > minDecimals && decimalText.endsWith("0")) decimalText = decimalText.slice(0, -1);
+  if (integerText === "0" && minIntegerDigits === 0) integerText = "";
+  integerText = integerText.padStart(minIntegerDigits, "0");
+  if (grouped) integerText = integerText.replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+
+  const numberText = `${integerText}${decimalText || mantissaPattern.includes(".") ? "." : ""}${decimalText}${exponentText}`;
+
+  // Literals before the first placeholder lead; everything after trails
+  const firstCode = tokens.findIndex(token => "code" in token && /[0#?.]/.test(token.code));
+  const prefix = tokens.slice(0, firstCode).map(literalText).join("");
+  const suffix = tokens.slice(firstCode).map(literalText).join("");
+  const negative = showSign && value < 0 && /[1-9]/.test(numberText);
+  return `${negative ? "-" : ""}${prefix}${numberText}${suffix}`;
+}
+
+const MONTHS = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
+const DAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+function formatDateSection(serial: number, tokens: Token[], date1904: boolean): string {
+  // Round to the millisecond so times like 0.5 land exactly on the second
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+  const date = new Date(epoch + Math.round(serial * 86400000));
+  const twelveHour = tokens.some(token => "code" in token && (token.code === "am/pm" || token.code === "a/p"));
+  const hours = date.getUTCHours();
+  const codes = tokens.map(token => ("code" in token ? token.code : undefined));
+
+  // "m" is minutes right after an hour or right before a second, months otherwise
+  const isMinutes = (index: number): boolean => {
+    const previous = codes.slice(0, index).reverse().find(code => code !== undefined && DATE_CODE.test(code));
+    const next = codes.slice(index + 1).find(code => code !== undefined && DATE_CODE.test(code));
+    return Boolean(previous && /^h|^\[h/.test(previous)) || Boolean(next && /^s/.test(next));
+  };
+
+  return tokens
+    .map((token, index) => {
+      if ("literal" in token) return token.literal;
+      const code = token.code;
+      const pad = (n: number) => String(n).padStart(2, "0");
+      switch (code[0]) {
+        case "y":
+          return code.length <= 2 ? pad(date.getUTCFullYear() % 100) : String(date.getUTCFullYear());
+        case "d":
+          if (code.length >= 4) return DAYS[date.getUTCDay()];
+          if (code.length === 3) return DAYS[date.getUTCDay()].slice(0, 3);
+          return code.length === 2 ? pad(date.getUTCDate()) : String(date.getUTCDate());
+        case "m":
+          if (code.length <= 2 && isMinutes(index)) {
+            return code.length === 2 ? pad(date.getUTCMinutes()) : String(date.getUTCMinutes());
+          }
+          if (code.length >= 5) return MONTHS[date.getUTCMonth()][0];
+          if (code.length === 4) return MONTHS[date.getUTCMonth()];
+          if (code.length === 3) return MONTHS[date.getUTCMonth()].slice(0, 3);
+          return code.length === 2 ? pad(date.getUTCMonth() + 1) : String(date.getUTCMonth() + 1);
+        case "h": {
+          const hour = twelveHour ? hours % 12 || 12 : hours;
+          return code.length === 2 ? pad(hour) : String(hour);
+        }
+        case "s":
+          return code.length === 2 ? pad(date.getUTCSeconds()) : String(date.getUTCSeconds());
+        case "a":
+          return code === "am/pm" ? (hours < 12 ? "AM" : "PM") : hours < 12 ? "A" : "P";
+        case "[":
+          // Elapsed time: [h], [m], [s]
+          return String(Math.floor(serial * { h: 24, m: 1440, s: 86400 }[code[1] as "h" | "m" | "s"]));
+        default:
+          // Separators such as / . , - between date parts
+          return /[0#?@]/.test(code) ? "" : code;
+      }
+    })
+    .join("");
+}
+
+/**
+ * Format a number as Excel would display it with the given format code.
+ * Numbers shown as dates are serials counted from 1900 (or 1904).
+ */
+export function formatNumber(value: number, format: string | undefined, date1904: boolean = false): string {
+  if (!format || format.toLowerCase() === "general") return formatGeneral(value);
+
+  const sections = splitSections(format);
+  let section = sections[0];
+  let showSign = true;
+  if (value < 0 && sections.length > 1 && sections[1] !== "") {
+    section = sections[1];
+    showSign = false;
+  } else if (value === 0 && sections.length > 2 && sections[2] !== "") {
+    section = sections[2];
+  }
+  if (section.toLowerCase() === "general") return formatGeneral(value);
+
+  const tokens = tokenize(section);
+  if (isDateSection(tokens)) {
+    return formatDateSection(value, tokens, date1904);
+  }
+  return formatNumberSection(value, tokens, showSign);
+}
+
+// Whether numbers shown with this format appear as dates or times
+export function isDateFormat(format: string | undefined): boolean {
+  if (!format || format.toLowerCase() === "general") return false;
+  return isDateSection(tokenize(splitSections(format)[0]));
+}
+
+// Text goes through the fourth section, where @ stands for the text itself
+export function formatText(value: string, format: string | undefined): string {
+  const sections = format ? splitSections(format) : [];
+  const textSection = sections.length > 3 ? sections[3] : sections.find(section => section.includes("@"));
+  if (!textSection) return value;
+  return tokenize(textSection)
+    .map(token => ("literal" in token ? token.literal : token.code === "@" ? value : ""))
+    .join("");
+}
@@ -0,0 +1,392 @@
+import JSZip from "jszip";
+import {
+  CONTENT_TYPES,
+  REL_TYPES,
+  addContentTypeOverride,
+  escapeXml,
+  getAttribute,
+  getSheetPartPaths,
+  getWorkbookPartPath,
+  nextPartPath,
+  nextRelationshipId,
+  readRelationships,
+  readText,
+  relativeTarget,
+  resolveTarget,
+  unescapeXml,
+  writeRelationships,
+} from "./xlsx-package.js";
+
+// Native pivot table parts. ExcelJS can't write pivot tables like the ones
+// create_pivot_table builds, so each is saved as a pivot cache definition and
+// a pivot table definition patched into the package. The cache holds no
+// records and is marked refreshOnLoad, so Excel rebuilds the table from its
+// source range when the file is opened.
+
+export type PivotSubtotal = "sum" | "count" | "average" | "min" | "max" | "stdDev";
+
+export type PivotItem = string | number | boolean | null;
+
+export interface PivotLocation {
+  // The table itself, below any report filters
+  ref: string;
+  // Offsets within ref of the column items row, the first data row and the first data column
+  firstHeaderRow: number;
+  firstDataRow: number;
+  firstDataCol: number;
+}
+
+export interface NativePivotTable {
+  name: string;
+  sheet: string;
+  location: PivotLocation;
+  source: { sheet: string; ref: string };
+  // Cache fields in source column order; items are listed for page fields
+  fields: Array<{ name: string; items?: PivotItem[] }>;
+  rowFields: number[];
+  columnFields: number[];
+  dataFields: Array<{ name: string; field: number; subtotal: PivotSubtotal; percentOfTotal?: boolean }>;
+  // Items shown for each page field, as indexes into the field's items
+  pageFields: Array<{ field: number; selected: number[] }>;
+  sort: { descending: boolean; byDataField?: number };
+  subtotals: boolean;
+  grandTotals: boolean;
+}
+
+const NS = {
+  main: "http://schemas.openxmlformats.org/spreadsheetml/2006/main",
+  r: "http://schemas.openxmlformats.org/officeDocument/2006/relationships",
+};
+
+// Field index Excel uses for the Values pseudo-field, and for data fields in sort scopes
+const VALUES_FIELD = -2;
+const DATA_FIELD_REFERENCE = 4294967294;
+
+// Part XML generation
+
+export function buildPivotCacheXml(pivot: NativePivotTable): string {
+  const fields = pivot.fields
+    .map(field => `<cacheField name="${escapeXml(field.name)}" numFmtId="0">${buildSharedItemsXml(field.items)}</cacheField>`)
+    .join("");
+
+  return (
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+    `<pivotCacheDefinition xmlns="${NS.main}" xmlns:r="${NS.r}" saveData="0" refreshOnLoad="1" ` +
+    `createdVersion="3" refreshedVersion="3" minRefreshableVersion="3" recordCount="0">` +
+    `<cacheSource type="worksheet"><worksheetSource ref="${escapeXml(pivot.source.ref)}" sheet="${escapeXml(pivot.source.sheet)}"/></cacheSource>` +
+    `<cacheFields count="${pivot.fields.length}">${fields}</cacheFields>` +
+    `</pivotCacheDefinition>`
+  );
+}
+
+function buildSharedItemsXml(items: PivotItem[] | undefined): string {
+  if (!items || items.length === 0) return "<sharedItems/>";
+
+  const hasString = items.some(item => typeof item === "string" || typeof item === "boolean");
+  const hasNumber = items.some(item => typeof item === "number");
+  const attributes = [
+    !hasString && hasNumber ? ' containsSemiMixedTypes="0" containsString="0"' : "",
+    hasNumber ? ' containsNumber="1"' : "",
+    hasNumber && items.every(item => typeof item !== "number" || Number.isInteger(item)) ? ' containsInteger="1"' : "",
+    items.includes(null) ? ' containsBlank="1"' : "",
+    hasString && hasNumber ? ' containsMixedTypes="1"' : "",
+  ].join("");
+  const values = items
+    .map(item => {
+      if (item === null) return "<m/>";
+      if (typeof item === "number") return `<n v="${item}"/>`;
+      if (typeof item === "boolean") return `<b v="${item ? 1 : 0}"/>`;
+      return `<s v="${escapeXml(item)}"/>`;
+    })
+    .join("");
+  return `<sharedItems${attributes} count="${items.length}">${values}</sharedItems>`;
+}
+
+export function buildPivotTableXml(pivot: NativePivotTable, cacheId: number): string {
+  const innermostRowField = pivot.rowFields[pivot.rowFields.length - 1];
+
+  const pivotFields = pivot.fields
+    .map((field, index) => {
+      const attributes = [`compact="0" outline="0" showAll="0"`];
+      if (pivot.dataFields.some(dataField => dataField.field === index)) attributes.push(`dataField="1"`);
+
+      const page = pivot.pageFields.find(pageField => pageField.field === index);
+      if (page) {
+        const items = (field.items ?? []).map((_, item) => `<item x="${item}"${page.selected.includes(item) ? "" : ' h="1"'}/>`);
+        if (page.selected.length > 1) attributes.push(`multipleItemSelectionAllowed="1"`);
+        return (
+          `<pivotField axis="axisPage" ${attributes.join(" ")}>` +
+          `<items count="${items.length + 1}">${items.join("")}<item t="default"/></items></pivotField>`
+        );
+      }
+
+      const isRow = pivot.rowFields.includes(index);
+      if (!isRow && !pivot.columnFields.includes(index)) return `<pivotField ${attributes.join(" ")}/>`;
+
+      attributes.unshift(`axis="${isRow ? "axisRow" : "axisCol"}"`);
+      // Column items are always in ascending label order
+      attributes.push(`sortType="${isRow && pivot.sort.descending ? "descending" : "ascending"}"`);
+      // Subtotals are shown for outer row fields only
+      const subtotal = isRow && pivot.subtotals && index !== innermostRowField;
+      if (!subtotal) attributes.push(`defaultSubtotal="0"`);
+
+      const items = subtotal ? `<items count="1"><item t="default"/></items>` : "";
+      const sortScope =
+        isRow && pivot.sort.byDataField !== undefined
+          ? `<autoSortScope><pivotArea dataOnly="0" outline="0" fieldPosition="0"><references count="1">` +
+            `<reference field="${DATA_FIELD_REFERENCE}" count="1" selected="0"><x v="${pivot.sort.byDataField}"/></reference>` +
+            `</references></pivotArea></autoSortScope>`
+          : "";
+      return items || sortScope
+        ? `<pivotField ${attributes.join(" ")}>${items}${sortScope}</pivotField>`
+        : `<pivotField ${attributes.join(" ")}/>`;
+    })
+    .join("");
+
+  const columnFields = [...pivot.columnFields, ...(pivot.dataFields.length > 1 ? [VALUES_FIELD] : [])];
+  const pageFields = pivot.pageFields.map(
+    pageField => `<pageField fld="${pageField.field}"${pageField.selected.length === 1 ? ` item="${pageField.selected[0]}"` : ""} hier="-1"/>`
+  );
+  const dataFields = pivot.dataFields.map(
+    dataField =>
+      `<dataField name="${escapeXml(dataField.name)}" fld="${dataField.field}" subtotal="${dataField.subtotal}"` +
+      `${dataField.percentOfTotal ? ' showDataAs="percentOfTotal"' : ""} baseField="0" baseItem="0"` +
+      `${dataField.percentOfTotal ? ' numFmtId="10"' : ""}/>`
+  );
+  const { location } = pivot;
+
+  return (
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+    `<pivotTableDefinition xmlns="${NS.main}" name="${escapeXml(pivot.name)}" cacheId="${cacheId}" ` +
+    `applyNumberFormats="0" applyBorderFormats="0" applyFontFormats="0" applyPatternFormats="0" ` +
+    `applyAlignmentFormats="0" applyWidthHeightFormats="1" dataCaption="Values" updatedVersion="3" ` +
+    `minRefreshableVersion="3" useAutoFormatting="1" itemPrintTitles="1" createdVersion="3" indent="0" ` +
+    `compact="0" compactData="0" outline="1" outlineData="1" multipleFieldFilters="0"` +
+    `${pivot.grandTotals ? "" : ' rowGrandTotals="0" colGrandTotals="0"'}>` +
+    `<location ref="${location.ref}" firstHeaderRow="${location.firstHeaderRow}" firstDataRow="${location.firstDataRow}" ` +
+    `firstDataCol="${location.firstDataCol}"${pageFields.length > 0 ? ` rowPageCount="${pageFields.length}" colPageCount="1"` : ""}/>` +
+    `<pivotFields count="${pivot.fields.length}">${pivotFields}</pivotFields>` +
+    (pivot.rowFields.length > 0
+      ? `<rowFields count="${pivot.rowFields.length}">${pivot.rowFields.map(field => `<field x="${field}"/>`).join("")}</rowFields>`
+      : "") +
+    (columnFields.length > 0
+      ? `<colFields count="${columnFields.length}">${columnFields.map(field => `<field x="${field}"/>`).join("")}</colFields>`
+      : "") +
+    (pageFields.length > 0 ? `<pageFields count="${pageFields.length}">${pageFields.join("")}</pageFields>` : "") +
+    `<dataFields count="${dataFields.length}">${dataFields.join("")}</dataFields>` +
+    `<pivotTableStyleInfo name="PivotStyleLight16" showRowHeaders="1" showColHeaders="1" ` +
+    `showRowStripes="0" showColStripes="0" showLastColumn="1"/>` +
+    `</pivotTableDefinition>`
+  );
+}
+
+// Reading pivot tables from an existing package
+
+/**
+ * Read back the pivot tables of an opened file so they can be refreshed and
+ * saved again. Only pivot tables over a worksheet range with subtotals Excel
+ * and create_pivot_table share are read; others are skipped.
+ */
+export async function readPivotTablesFromPackage(zip: JSZip): Promise<NativePivotTable[]> {
+  const pivots: NativePivotTable[] = [];
+
+  for (const [sheet, sheetPath] of await getSheetPartPaths(zip)) {
+    for (const sheetRel of await readRelationships(zip, sheetPath)) {
+      if (sheetRel.type !== REL_TYPES.pivotTable || sheetRel.external) continue;
+
+      const tablePath = resolveTarget(sheetPath, sheetRel.target);
+      const tableXml = await readText(zip, tablePath);
+      const cacheRel = (await readRelationships(zip, tablePath)).find(rel => rel.type === REL_TYPES.pivotCacheDefinition);
+      if (!tableXml || !cacheRel) continue;
+
+      const cacheXml = await readText(zip, resolveTarget(tablePath, cacheRel.target));
+      const pivot = cacheXml ? parsePivotTable(sheet, tableXml, cacheXml) : undefined;
+      if (pivot) pivots.push(pivot);
+    }
+  }
+
+  return pivots;
+}
+
+const SUBTOTALS: PivotSubtotal[] = ["sum", "count", "average", "min", "max", "stdDev"];
+
+// Elements named tag, self-closing or with content, ignoring namespace prefixes
+function elements(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<((?:\\w+:)?)${tag}\\b[^>]*?(?:\\/>|>[\\s\\S]*?<\\/\\1${tag}>)`, "g");
+  return [...xml.matchAll(pattern)].map(match => match[0]);
+}
+
+function startTag(elementXml: string): string {
+  return elementXml.match(/<[^>]*>/)![0];
+}
+
+function fieldIndexes(xml: string, tag: string): number[] {
+  const container = elements(xml, tag)[0] ?? "";
+  return elements(container, "field")
+    .map(field => Number(getAttribute(field, "x")))
+    .filter(index => index !== VALUES_FIELD);
+}
+
+function parseSharedItem(itemXml: string): PivotItem {
+  const type = itemXml.match(/^<(?:\w+:)?(\w)\b/)?.[1];
+  const value = getAttribute(itemXml, "v") ?? "";
+  switch (type) {
+    case "m":
+      return null;
+    case "n":
+      return Number(value);
+    case "b":
+      return value === "1" || value === "true";
+    default:
+      return value;
+  }
+}
+
+function parsePivotTable(sheet: string, tableXml: string, cacheXml: string): NativePivotTable | undefined {
+  // Named ranges, tables and external sources have no ref
+  const source = cacheXml.match(/<(?:\w+:)?worksheetSource\b[^>]*>/)?.[0];
+  const sourceRef = source && getAttribute(source, "ref");
+  if (!source || !sourceRef) return undefined;
+
+  const fields = elements(cacheXml, "cacheField").map(field => {
+    const sharedItems = field.match(/<((?:\w+:)?)sharedItems\b[^>]*>([\s\S]*?)<\/\1sharedItems>/)?.[2] ?? "";
+    const items = [...sharedItems.matchAll(/<(?:\w+:)?[smnbde]\b[^>]*\/?>/g)].map(item => parseSharedItem(item[0]));
+    return { name: getAttribute(startTag(field), "name") ?? "", items };
+  });
+
+  const root = tableXml.match(/<(?:\w+:)?pivotTableDefinition\b[^>]*>/)?.[0];
+  const location = tableXml.match(/<(?:\w+:)?location\b[^>]*>/)?.[0];
+  if (!root || !location) return undefined;
+
+  const pivotFields = elements(tableXml, "pivotField");
+  const rowFields = fieldIndexes(tableXml, "rowFields");
+  const columnFields = fieldIndexes(tableXml, "colFields");
+
+  const dataFields: NativePivotTable["dataFields"] = [];
+  for (const dataField of elements(tableXml, "dataField")) {
+    const tag = startTag(dataField);
+    const subtotal = (getAttribute(tag, "subtotal") ?? "sum") as PivotSubtotal;
+    const showDataAs = getAttribute(tag, "showDataAs");
+    if (!SUBTOTALS.includes(subtotal) || (showDataAs && showDataAs !== "percentOfTotal")) return undefined;
+    dataFields.push({
+      name: getAttribute(tag, "name") ?? "",
+      field: Number(getAttribute(tag, "fld")),
+      subtotal,
+      percentOfTotal: showDataAs === "percentOfTotal",
+    });
+  }
+  if (dataFields.length === 0) return undefined;
+
+  // Selected page items, as indexes into the cache field's items
+  const pageFields = elements(tableXml, "pageField").map(pageField => {
+    const field = Number(getAttribute(pageField, "fld"));
+    const items = elements(pivotFields[field] ?? "", "item")
+      .filter(item => getAttribute(item, "t") === undefined)
+      .map(item => ({ x: Number(getAttribute(item, "x")), hidden: getAttribute(item, "h") === "1" }));
+    const item = getAttribute(pageField, "item");
+    const selected =
+      item !== undefined
+        ? [items[Number(item)]?.x ?? Number(item)]
+        : items.length > 0
+          ? items.filter(entry => !entry.hidden).map(entry => entry.x)
+          : fields[field]?.items?.map((_, index) => index) ?? [];
+    return { field, selected };
+  });
+
+  const rowFieldXml = rowFields.map(field => startTag(pivotFields[field] ?? "<pivotField>"));
+  const sortScope = rowFields
+    .map(field => (pivotFields[field] ?? "").match(/<(?:\w+:)?autoSortScope\b[\s\S]*?<(?:\w+:)?x\b[^>]*>/)?.[0])
+    .find(Boolean);
+  const outerRowFields = rowFieldXml.slice(0, -1);
+
+  return {
+    name: unescapeXml(getAttribute(root, "name") ?? ""),
+    sheet,
+    location: {
+      ref: getAttribute(location, "ref") ?? "",
+      firstHeaderRow: Number(getAttribute(location, "firstHeaderRow") ?? 1),
+      firstDataRow: Number(getAttribute(location, "firstDataRow") ?? 1),
+      firstDataCol: Number(getAttribute(location, "firstDataCol") ?? 1),
+    },
+    source: { sheet: getAttribute(source, "sheet") ?? sheet, ref: sourceRef.replace(/\$/g, "") },
+    fields,
+    rowFields,
+    columnFields,
+    dataFields,
+    pageFields,
+    sort: {
+      descending: rowFieldXml.some(tag => getAttribute(tag, "sortType") === "descending"),
+      byDataField: sortScope ? Number(getAttribute(sortScope.match(/<(?:\w+:)?x\b[^>]*>$/)![0], "v")) : undefined,
+    },
+    subtotals: outerRowFields.length === 0 || outerRowFields.some(tag => getAttribute(tag, "defaultSubtotal") !== "0"),
+    grandTotals: getAttribute(root, "rowGrandTotals") !== "0",
+  };
+}
+
+// Writing pivot tables into a saved package
+
+export async function embedPivotTables(zip: JSZip, pivots: NativePivotTable[]): Promise<void> {
+  if (pivots.length === 0) return;
+
+  const workbookPath = await getWorkbookPartPath(zip);
+  let workbookXml = await readText(zip, workbookPath);
+  if (!workbookXml) return;
+
+  const workbookRels = await readRelationships(zip, workbookPath);
+  const sheetParts = await getSheetPartPaths(zip);
+  let nextCacheId = Math.max(0, ...[...workbookXml.matchAll(/<pivotCache\b[^>]*\scacheId="(\d+)"/g)].map(m => Number(m[1]))) + 1;
+
+  let caches = "";
+  for (const pivot of pivots) {
+    const sheetPath = sheetParts.get(pivot.sheet);
+    if (!sheetPath) continue;
+
+    const cachePath = nextPartPath(zip, "xl/pivotCache", "pivotCacheDefinition", "xml");
+    zip.file(cachePath, buildPivotCacheXml(pivot));
+    await addContentTypeOverride(zip, cachePath, CONTENT_TYPES.pivotCacheDefinition);
+
+    const cacheRelId = nextRelationshipId(workbookRels);
+    workbookRels.push({
+      id: cacheRelId,
+      type: REL_TYPES.pivotCacheDefinition,
+      target: relativeTarget(workbookPath, cachePath),
+      external: false,
+    });
+    const cacheId = nextCacheId++;
+    caches += `<pivotCache cacheId="${cacheId}" r:id="${cacheRelId}"/>`;
+
+    const tablePath = nextPartPath(zip, "xl/pivotTables", "pivotTable", "xml");
+    zip.file(tablePath, buildPivotTableXml(pivot, cacheId));
+    await addContentTypeOverride(zip, tablePath, CONTENT_TYPES.pivotTable);
+    writeRelationships(zip, tablePath, [
+      { id: "rId1", type: REL_TYPES.pivotCacheDefinition, target: relativeTarget(tablePath, cachePath), external: false },
+    ]);
+
+    const sheetRels = await readRelationships(zip, sheetPath);
+    sheetRels.push({
+      id: nextRelationshipId(sheetRels),
+      type: REL_TYPES.pivotTable,
+      target: relativeTarget(sheetPath, tablePath),
+      external: false,
+    });
+    writeRelationships(zip, sheetPath, sheetRels);
+  }
+  if (!caches) return;
+
+  writeRelationships(zip, workbookPath, workbookRels);
+  if (!/<workbook\b[^>]*\sxmlns:r=/.test(workbookXml)) {
+    workbookXml = workbookXml.replace(/<workbook\b/, `<workbook xmlns:r="${NS.r}"`);
+  }
+  if (/<pivotCaches>/.test(workbookXml)) {
+    workbookXml = workbookXml.replace(/<\/pivotCaches>/, `${caches}</pivotCaches>`);
+  } else {
+    // CT_Workbook order: pivotCaches comes before these elements
+    const block = `<pivotCaches>${caches}</pivotCaches>`;
+    const following = workbookXml.match(/<(smartTagPr|smartTagTypes|webPublishing|fileRecoveryPr|webPublishObjects|extLst)\b/);
+    workbookXml =
+      following && following.index !== undefined
+        ? workbookXml.substring(0, following.index) + block + workbookXml.substring(following.index)
+        : workbookXml.replace(/<\/workbook>\s*$/, `${block}</workbook>`);
+  }
+  zip.file(workbookPath, workbookXml);
+}
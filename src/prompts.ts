@@ -0,0 +1,204 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { ExcelClient } from "./excel-client.js";
+
+// MCP prompts for common spreadsheet workflows. Each prompt pulls live
+// context from the workbook (headers, sample rows, formulas) into its message
+// so clients get consistent instructions without pasting them by hand.
+
+type PromptArgs = Record<string, string | undefined>;
+
+interface PromptMessage {
+  role: "user";
+  content: { type: "text"; text: string };
+}
+
+// Rows of data shown to the model as a sample
+const SAMPLE_ROWS = 10;
+
+const workbookArgument = { name: "workbookId", description: "The workbook ID", required: true };
+const sheetArgument = { name: "sheet", description: "Sheet name or index (1-based)", required: true };
+const rangeArgument = { name: "range", description: "Range with a header row (e.g., 'A1:F200'); defaults to the used area", required: false };
+
+export const PROMPTS = [
+  {
+    name: "analyze_sheet",
+    description: "Analyze a sheet's data: structure, quality issues, patterns and suggested next steps",
+    arguments: [workbookArgument, sheetArgument, rangeArgument],
+  },
+  {
+    name: "monthly_summary",
+    description: "Build a month-by-month summary of a table on a new sheet",
+    arguments: [
+      workbookArgument,
+      sheetArgument,
+      { name: "dateColumn", description: "Header of the date column", required: true },
+      { name: "valueColumns", description: "Comma-separated headers of the columns to total (default: all numeric columns)", required: false },
+      rangeArgument,
+    ],
+  },
+  {
+    name: "clean_table",
+    description: "Clean a table in place: whitespace, types, dates, blanks and duplicates",
+    arguments: [workbookArgument, sheetArgument, rangeArgument],
+  },
+  {
+    name: "explain_formula",
+    description: "Explain what a formula calculates and where its inputs come from",
+    arguments: [
+      workbookArgument,
+      sheetArgument,
+      { name: "cell", description: "Cell containing the formula (e.g., 'D10')", required: true },
+    ],
+  },
+];
+
+export function getPrompt(client: ExcelClient, name: string, args: PromptArgs = {}): { description: string; messages: PromptMessage[] } {
+  const prompt = PROMPTS.find(p => p.name === name);
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+  for (const argument of prompt.arguments) {
+    if (argument.required && !args[argument.name]) {
+      throw new McpError(ErrorCode.InvalidParams, `Missing required argument "${argument.name}" for prompt ${name}`);
+    }
+  }
+
+  let text: string;
+  try {
+    switch (name) {
+      case "analyze_sheet":
+        text = analyzeSheetPrompt(client, args);
+        break;
+      case "monthly_summary":
+        text = monthlySummaryPrompt(client, args);
+        break;
+      case "clean_table":
+        text = cleanTablePrompt(client, args);
+        break;
+      default:
+        text = explainFormulaPrompt(client, args);
+    }
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+  }
+
+  return { description: prompt.description, messages: [{ role: "user", content: { type: "text", text } }] };
+}
+
+function toSheetId(sheet: string | undefined): string | number {
+  return isNaN(Number(sheet)) ? sheet! : Number(sheet);
+}
+
+// Workbook, sheet, headers and the first rows of the data as a Markdown table
+function describeData(client: ExcelClient, args: PromptArgs): string {
+  const { workbookId, range } = args;
+  const sheet = toSheetId(args.sheet);
+  const info = client.getSheetInfo(workbookId!, sheet);
+  const location = `Workbook ${workbookId}, sheet "${info.name}"${range ? `, range ${range}` : ""}`;
+  if (!range && info.actualRowCount === 0) {
+    return `${location}\n\nThe sheet is empty.`;
+  }
+
+  // Export only the header row and the sample rows, however large the data is
+  const bounds = (range ?? info.usedRange!).replace(/\$/g, "").toUpperCase().match(/^([A-Z]+)(\d+)(?::([A-Z]+)(\d+))?$/);
+  if (!bounds) {
+    throw new Error(`Invalid range: ${range}`);
+  }
+  const [, firstColumn, firstRow, lastColumn = firstColumn, lastRow = firstRow] = bounds;
+  const dataRows = Math.max(Number(lastRow) - Number(firstRow), 0);
+  const sampleEnd = Number(firstRow) + Math.min(dataRows, SAMPLE_ROWS);
+  const sample = client.exportRange(workbookId!, sheet, "markdown", `${firstColumn}${firstRow}:${lastColumn}${sampleEnd}`) as string;
+  const columns = client.listColumns(workbookId!, sheet);
+
+  return [
+    location,
+    `${dataRows} data rows below the header row.`,
+    ...(range
+      ? []
+      : [`Columns: ${columns.length > 0 ? columns.map(column => `${column.column} = ${column.header}`).join(", ") : "(no header row)"}`]),
+    "",
+    dataRows > SAMPLE_ROWS ? `First ${SAMPLE_ROWS} rows:` : "Data:",
+    "",
+    sample,
+  ].join("\n");
+}
+
+function analyzeSheetPrompt(client: ExcelClient, args: PromptArgs): string {
+  return [
+    "Analyze this spreadsheet data.",
+    "",
+    describeData(client, args),
+    "",
+    "1. Describe what the data represents and what each column holds, including its type and units.",
+    "2. Point out quality issues: blanks, inconsistent types or formats, duplicates, outliers and formula errors.",
+    "3. Summarize the key figures and patterns. Compute them with query_sheet rather than estimating from the sample, since only the first rows are shown.",
+    "4. Suggest next steps, such as a pivot table, a chart or cleanup.",
+    "",
+    "Do not modify the workbook.",
+  ].join("\n");
+}
+
+function monthlySummaryPrompt(client: ExcelClient, args: PromptArgs): string {
+  const values = args.valueColumns
+    ? args.valueColumns.split(",").map(column => column.trim()).filter(Boolean)
+    : undefined;
+  return [
+    "Build a monthly summary of this data.",
+    "",
+    describeData(client, args),
+    "",
+    `1. Group the rows by the month of "${args.dateColumn}". Dates are read as ISO text (yyyy-mm-dd); if the column holds text in another format, say so before going further.`,
+    `2. For each month, total ${values ? values.map(value => `"${value}"`).join(", ") : "every numeric column"} and count the rows.`,
+    "3. Write the result to a new sheet named \"Monthly Summary\", one row per month in chronological order, with a header row and a grand total row.",
+    "4. Use formulas such as SUMIFS and COUNTIFS that reference the source data, so the summary updates when the data changes.",
+    "5. Format the month column as mmm yyyy and the totals with thousands separators.",
+    "",
+    "Report the months covered and anything that could not be included.",
+  ].join("\n");
+}
+
+function cleanTablePrompt(client: ExcelClient, args: PromptArgs): string {
+  return [
+    "Clean this table in place.",
+    "",
+    describeData(client, args),
+    "",
+    "1. Call create_checkpoint first, named \"before-clean\", so the cleanup can be reverted with restore_checkpoint.",
+    "2. Trim leading and trailing whitespace, and collapse repeated spaces in text.",
+    "3. Convert numbers and dates stored as text into real values, writing dates in ISO format (yyyy-mm-dd).",
+    "4. Make categories consistent, such as casing and spelling variants of the same value.",
+    "5. Find exact duplicate rows and blank rows, and remove them.",
+    "6. Leave formulas and the header row unchanged, except to trim header whitespace.",
+    "",
+    "Read the full data with read_range before changing it. Then list every change made, with counts per column.",
+  ].join("\n");
+}
+
+function explainFormulaPrompt(client: ExcelClient, args: PromptArgs): string {
+  const { workbookId, cell } = args;
+  const sheet = toSheetId(args.sheet);
+  const { formula, calculatedValue } = client.readCell(workbookId!, sheet, cell!);
+  if (!formula) {
+    throw new Error(`Cell ${cell} does not contain a formula`);
+  }
+  const precedents = client.tracePrecedents(workbookId!, sheet, cell!, 2);
+
+  return [
+    "Explain this spreadsheet formula.",
+    "",
+    `Workbook ${workbookId}, sheet "${client.getSheetInfo(workbookId!, sheet).name}", cell ${cell}`,
+    `Formula: ${formula}`,
+    `Current value: ${JSON.stringify(calculatedValue)}`,
+    "",
+    "Precedents (the cells, ranges and names it reads, two levels deep):",
+    "",
+    "```json",
+    JSON.stringify(precedents.children ?? []),
+    "```",
+    "",
+    "1. Explain in plain language what the formula calculates and why it gives the current value.",
+    "2. Walk through each function and reference, and where its inputs come from.",
+    "3. Point out risks such as hard-coded constants, ranges that will not grow with the data, or error cases.",
+    "4. If there is a simpler or more robust way to write it, suggest it but do not change the workbook.",
+  ].join("\n");
+}
@@ -0,0 +1,93 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { ExcelClient } from "./excel-client.js";
+
+// MCP resources for open workbooks. Each sheet is a resource at
+// excel://{workbookId}/{sheet}, optionally narrowed to a range with
+// excel://{workbookId}/{sheet}/{range}. Sheets are read as CSV, or as a
+// Markdown table with ?format=markdown.
+
+export type ResourceFormat = "csv" | "markdown";
+
+export interface SheetResource {
+  uri: string;
+  workbookId: string;
+  sheet: string;
+  range?: string;
+  format: ResourceFormat;
+}
+
+const MIME_TYPES: Record<ResourceFormat, string> = {
+  csv: "text/csv",
+  markdown: "text/markdown",
+};
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: "excel://{workbookId}/{sheet}{?format}",
+    name: "Sheet",
+    description: "A sheet's used area as CSV (default) or a Markdown table (format=markdown). Sheet names are URI-encoded.",
+    mimeType: MIME_TYPES.csv,
+  },
+  {
+    uriTemplate: "excel://{workbookId}/{sheet}/{range}{?format}",
+    name: "Sheet range",
+    description: "A range of a sheet (e.g., A1:D20) as CSV (default) or a Markdown table (format=markdown)",
+    mimeType: MIME_TYPES.csv,
+  },
+];
+
+export function sheetResourceUri(workbookId: string, sheet: string, range?: string): string {
+  return `excel://${encodeURIComponent(workbookId)}/${encodeURIComponent(sheet)}${range ? `/${range}` : ""}`;
+}
+
+export function parseSheetResourceUri(uri: string): SheetResource {
+  const match = uri.match(/^excel:\/\/([^/?#]+)\/([^/?#]+)(?:\/([^/?#]+))?\/?(?:\?([^#]*))?$/);
+  if (!match) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid resource URI: ${uri}. Expected excel://{workbookId}/{sheet}[/{range}]`);
+  }
+
+  const format = new URLSearchParams(match[4] ?? "").get("format") ?? "csv";
+  if (format !== "csv" && format !== "markdown") {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown format "${format}". Use csv or markdown`);
+  }
+  return {
+    uri,
+    workbookId: decodeURIComponent(match[1]),
+    sheet: decodeURIComponent(match[2]),
+    range: match[3] ? decodeURIComponent(match[3]).toUpperCase() : undefined,
+    format,
+  };
+}
+
+// One resource per sheet of every open workbook
+export function listSheetResources(client: ExcelClient): Array<{ uri: string; name: string; description: string; mimeType: string }> {
+  return client.listWorkbooks().flatMap(workbook =>
+    client.listSheets(workbook.id).map(sheet => ({
+      uri: sheetResourceUri(workbook.id, sheet.name),
+      name: `${workbook.id}/${sheet.name}`,
+      description: `Sheet "${sheet.name}" of ${workbook.path ?? `workbook ${workbook.id}`}`,
+      mimeType: MIME_TYPES.csv,
+    }))
+  );
+}
+
+export async function readSheetResource(client: ExcelClient, uri: string): Promise<{ uri: string; mimeType: string; text: string }> {
+  const resource = parseSheetResourceUri(uri);
+  try {
+    return { uri, mimeType: MIME_TYPES[resource.format], text: await renderSheetResource(client, resource) };
+  } catch (error) {
+    if (error instanceof McpError) throw error;
+    throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+  }
+}
+
+async function renderSheetResource(client: ExcelClient, resource: SheetResource): Promise<string> {
+  const { workbookId, sheet, range } = resource;
+  if (!range && client.getSheetInfo(workbookId, sheet).actualRowCount === 0) return "";
+
+  if (resource.format === "markdown") {
+    return client.exportRange(workbookId, sheet, "markdown", range) as string;
+  }
+  const { csv } = await client.exportCsv(workbookId, sheet, { range });
+  return csv ?? "";
+}
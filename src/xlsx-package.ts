@@ -0,0 +1,376 @@
+import JSZip from "jszip";
+
+// Low-level helpers for reading and patching the OPC package (zip + XML parts)
+// behind an .xlsx file. ExcelJS has no model for some parts (charts, pivot
+// caches), so those are read and written here directly.
+
+export interface Relationship {
+  id: string;
+  type: string;
+  target: string;
+  external: boolean;
+}
+
+export interface PackagePart {
+  path: string;
+  data: Uint8Array;
+  contentType?: string;
+  rels?: Relationship[];
+}
+
+export const REL_TYPES = {
+  drawing: "http://schemas.openxmlformats.org/officeDocument/2006/relationships/drawing",
+  chart: "http://schemas.openxmlformats.org/officeDocument/2006/relationships/chart",
+  pivotTable: "http://schemas.openxmlformats.org/officeDocument/2006/relationships/pivotTable",
+  pivotCacheDefinition: "http://schemas.openxmlformats.org/officeDocument/2006/relationships/pivotCacheDefinition",
+};
+
+export const CONTENT_TYPES = {
+  drawing: "application/vnd.openxmlformats-officedocument.drawing+xml",
+  chart: "application/vnd.openxmlformats-officedocument.drawingml.chart+xml",
+  table: "application/vnd.openxmlformats-officedocument.spreadsheetml.table+xml",
+  pivotTable: "application/vnd.openxmlformats-officedocument.spreadsheetml.pivotTable+xml",
+  pivotCacheDefinition: "application/vnd.openxmlformats-officedocument.spreadsheetml.pivotCacheDefinition+xml",
+};
+
+export async function loadPackage(data: Buffer | Uint8Array | ArrayBuffer): Promise<JSZip> {
+  return JSZip.loadAsync(data);
+}
+
+export async function savePackage(zip: JSZip): Promise<Buffer> {
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
+
+export async function readText(zip: JSZip, path: string): Promise<string | null> {
+  const file = zip.file(path);
+  return file ? file.async("string") : null;
+}
+
+export async function readBinary(zip: JSZip, path: string): Promise<Uint8Array | null> {
+  const file = zip.file(path);
+  return file ? file.async("uint8array") : null;
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+export function unescapeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&amp;/g, "&");
+}
+
+export function getAttribute(elementXml: string, name: string): string | undefined {
+  const match = elementXml.match(new RegExp(`\\s${name.replace(/[:]/g, "\\:")}="([^"]*)"`));
+  return match ? unescapeXml(match[1]) : undefined;
+}
+
+// Relationships
+
+export function relsPathFor(partPath: string): string {
+  const slash = partPath.lastIndexOf("/");
+  const dir = slash >= 0 ? partPath.substring(0, slash) : "";
+  const file = partPath.substring(slash + 1);
+  return dir ? `${dir}/_rels/${file}.rels` : `_rels/${file}.rels`;
+}
+
+export function resolveTarget(fromPart: string, target: string): string {
+  if (target.startsWith("/")) return target.substring(1);
+  const parts = fromPart.split("/");
+  parts.pop();
+  for (const segment of target.split("/")) {
+    if (segment === "..") parts.pop();
+    else if (segment !== ".") parts.push(segment);
+  }
+  return parts.join("/");
+}
+
+export function relativeTarget(fromPart: string, toPart: string): string {
+  const from = fromPart.split("/");
+  from.pop();
+  const to = toPart.split("/");
+  while (from.length > 0 && to.length > 1 && from[0] === to[0]) {
+    from.shift();
+    to.shift();
+  }
+  return [...from.map(() => ".."), ...to].join("/");
+}
+
+export async function readRelationships(zip: JSZip, partPath: string): Promise<Relationship[]> {
+  const xml = await readText(zip, relsPathFor(partPath));
+  if (!xml) return [];
+
+  const rels: Relationship[] = [];
+  for (const match of xml.matchAll(/<Relationship\b[^>]*>/g)) {
+    rels.push({
+      id: getAttribute(match[0], "Id") ?? "",
+      type: getAttribute(match[0], "Type") ?? "",
+      target: getAttribute(match[0], "Target") ?? "",
+      external: getAttribute(match[0], "TargetMode") === "External",
+    });
+  }
+  return rels;
+}
+
+export function writeRelationships(zip: JSZip, partPath: string, rels: Relationship[]): void {
+  const body = rels
+    .map(rel =>
+      `<Relationship Id="${escapeXml(rel.id)}" Type="${escapeXml(rel.type)}" Target="${escapeXml(rel.target)}"` +
+      `${rel.external ? ' TargetMode="External"' : ""}/>`
+    )
+    .join("");
+  zip.file(
+    relsPathFor(partPath),
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+      `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${body}</Relationships>`
+  );
+}
+
+export function nextRelationshipId(rels: Relationship[]): string {
+  let max = 0;
+  for (const rel of rels) {
+    const match = rel.id.match(/^rId(\d+)$/);
+    if (match) max = Math.max(max, Number(match[1]));
+  }
+  return `rId${max + 1}`;
+}
+
+// Content types
+
+export async function getContentType(zip: JSZip, partPath: string): Promise<string | undefined> {
+  const xml = await readText(zip, "[Content_Types].xml");
+  if (!xml) return undefined;
+
+  for (const match of xml.matchAll(/<Override\b[^>]*>/g)) {
+    if (getAttribute(match[0], "PartName") === `/${partPath}`) {
+      return getAttribute(match[0], "ContentType");
+    }
+  }
+
+  const extension = partPath.substring(partPath.lastIndexOf(".") + 1).toLowerCase();
+  for (const match of xml.matchAll(/<Default\b[^>]*>/g)) {
+    if (getAttribute(match[0], "Extension")?.toLowerCase() === extension) {
+      return getAttribute(match[0], "ContentType");
+    }
+  }
+  return undefined;
+}
+
+export async function addContentTypeOverride(zip: JSZip, partPath: string, contentType: string): Promise<void> {
+  const xml = await readText(zip, "[Content_Types].xml");
+  if (!xml) {
+    throw new Error("Package has no [Content_Types].xml");
+  }
+  if (xml.includes(`PartName="/${escapeXml(partPath)}"`)) return;
+
+  const override = `<Override PartName="/${escapeXml(partPath)}" ContentType="${escapeXml(contentType)}"/>`;
+  zip.file("[Content_Types].xml", xml.replace("</Types>", `${override}</Types>`));
+}
+
+// Part naming
+
+export function nextPartPath(zip: JSZip, directory: string, prefix: string, extension: string, reserved?: Set<string>): string {
+  let index = 1;
+  while (true) {
+    const path = `${directory}/${prefix}${index}.${extension}`;
+    if (!zip.file(path) && !reserved?.has(path)) return path;
+    index++;
+  }
+}
+
+// Workbook structure
+
+export async function getWorkbookPartPath(zip: JSZip): Promise<string> {
+  const rels = await readRelationships(zip, "");
+  const officeDocument = rels.find(rel => rel.type.endsWith("/officeDocument"));
+  return officeDocument ? resolveTarget("", officeDocument.target) : "xl/workbook.xml";
+}
+
+export async function getSheetPartPaths(zip: JSZip): Promise<Map<string, string>> {
+  const workbookPath = await getWorkbookPartPath(zip);
+  const workbookXml = await readText(zip, workbookPath);
+  const result = new Map<string, string>();
+  if (!workbookXml) return result;
+
+  const rels = await readRelationships(zip, workbookPath);
+  for (const match of workbookXml.matchAll(/<sheet\b[^>]*>/g)) {
+    const name = getAttribute(match[0], "name");
+    const relId = getAttribute(match[0], "r:id");
+    const rel = rels.find(r => r.id === relId);
+    if (name !== undefined && rel) {
+      result.set(name, resolveTarget(workbookPath, rel.target));
+    }
+  }
+  return result;
+}
+
+export interface DefinedName {
+  name: string;
+  refersTo: string;
+  // 0-based position of the sheet a sheet-scoped name belongs to
+  localSheetId?: number;
+  hidden?: boolean;
+}
+
+export async function readDefinedNames(zip: JSZip): Promise<DefinedName[]> {
+  const workbookXml = await readText(zip, await getWorkbookPartPath(zip));
+  const names: DefinedName[] = [];
+  if (!workbookXml) return names;
+
+  for (const match of workbookXml.matchAll(/<definedName\b([^>]*)>([\s\S]*?)<\/definedName>/g)) {
+    const attributes = ` ${match[1]}`;
+    const localSheetId = getAttribute(attributes, "localSheetId");
+    names.push({
+      name: getAttribute(attributes, "name") ?? "",
+      refersTo: unescapeXml(match[2]),
+      localSheetId: localSheetId !== undefined ? Number(localSheetId) : undefined,
+      hidden: getAttribute(attributes, "hidden") === "1" || getAttribute(attributes, "hidden") === "true",
+    });
+  }
+  return names;
+}
+
+/**
+ * Replace the defined names in workbook.xml. Built-in names (_xlnm.*) that
+ * ExcelJS writes for print areas and titles are kept.
+ */
+export async function writeDefinedNames(zip: JSZip, names: DefinedName[]): Promise<void> {
+  const workbookPath = await getWorkbookPartPath(zip);
+  const workbookXml = await readText(zip, workbookPath);
+  if (!workbookXml) return;
+
+  const builtIn = [...workbookXml.matchAll(/<definedName\b[^>]*>[\s\S]*?<\/definedName>/g)]
+    .map(match => match[0])
+    .filter(xml => (getAttribute(xml, "name") ?? "").startsWith("_xlnm."));
+  const custom = names.map(
+    name =>
+      `<definedName name="${escapeXml(name.name)}"` +
+      `${name.localSheetId !== undefined ? ` localSheetId="${name.localSheetId}"` : ""}` +
+      `${name.hidden ? ' hidden="1"' : ""}>${escapeXml(name.refersTo)}</definedName>`
+  );
+  const entries = [...builtIn, ...custom];
+  const block = entries.length > 0 ? `<definedNames>${entries.join("")}</definedNames>` : "";
+
+  let updated: string;
+  if (/<definedNames\b/.test(workbookXml)) {
+    updated = workbookXml.replace(/<definedNames\b[^>]*>[\s\S]*?<\/definedNames>|<definedNames\/>/, block);
+  } else if (/<\/externalReferences>/.test(workbookXml)) {
+    updated = workbookXml.replace(/<\/externalReferences>/, `</externalReferences>${block}`);
+  } else {
+    updated = workbookXml.replace(/<\/sheets>/, `</sheets>${block}`);
+  }
+  zip.file(workbookPath, updated);
+}
+
+// Tables
+
+export interface TableDefinition {
+  name: string;
+  headerRowCount: number;
+  totalsRowCount: number;
+}
+
+/**
+ * Read the header and totals row counts of every table part. Excel omits
+ * headerRowCount when it is the default of 1, which ExcelJS reads as 0.
+ */
+export async function readTableDefinitions(zip: JSZip): Promise<TableDefinition[]> {
+  const xml = await readText(zip, "[Content_Types].xml");
+  const tables: TableDefinition[] = [];
+  if (!xml) return tables;
+
+  for (const match of xml.matchAll(/<Override\b[^>]*>/g)) {
+    if (getAttribute(match[0], "ContentType") !== CONTENT_TYPES.table) continue;
+
+    const tableXml = await readText(zip, (getAttribute(match[0], "PartName") ?? "").replace(/^\//, ""));
+    const element = tableXml?.match(/<table\b[^>]*>/)?.[0];
+    if (!element) continue;
+
+    tables.push({
+      name: getAttribute(element, "name") ?? "",
+      headerRowCount: Number(getAttribute(element, "headerRowCount") ?? 1),
+      totalsRowCount: Number(getAttribute(element, "totalsRowCount") ?? 0),
+    });
+  }
+  return tables;
+}
+
+// Part trees
+
+/**
+ * Collect a part and everything it references through its relationships,
+ * so the whole subtree can be copied into another package later. The root
+ * part comes first.
+ */
+export async function collectPartTree(zip: JSZip, partPath: string, visited = new Set<string>()): Promise<PackagePart[]> {
+  if (visited.has(partPath)) return [];
+  visited.add(partPath);
+
+  const data = await readBinary(zip, partPath);
+  if (!data) return [];
+
+  const rels = await readRelationships(zip, partPath);
+  const parts: PackagePart[] = [{ path: partPath, data, contentType: await getContentType(zip, partPath), rels }];
+
+  for (const rel of rels) {
+    if (rel.external) continue;
+    parts.push(...(await collectPartTree(zip, resolveTarget(partPath, rel.target), visited)));
+  }
+
+  return parts;
+}
+
+/**
+ * Copy a tree gathered by collectPartTree into a package. Parts are renamed
+ * when their original path is already taken, and relationship targets are
+ * rewritten to match. Returns the new path of the root part.
+ */
+export async function copyPartTree(zip: JSZip, parts: PackagePart[]): Promise<string> {
+  const renamed = new Map<string, string>();
+  const reserved = new Set<string>();
+
+  for (const part of parts) {
+    let path = part.path;
+    if (zip.file(path) || reserved.has(path)) {
+      const slash = path.lastIndexOf("/");
+      const match = path.substring(slash + 1).match(/^(.*?)\d*\.(\w+)$/);
+      path = match
+        ? nextPartPath(zip, path.substring(0, slash), match[1], match[2], reserved)
+        : nextPartPath(zip, path.substring(0, slash), "part", "bin", reserved);
+    }
+    renamed.set(part.path, path);
+    reserved.add(path);
+  }
+
+  for (const part of parts) {
+    const path = renamed.get(part.path)!;
+    zip.file(path, part.data);
+    if (part.contentType) {
+      await addContentTypeOverride(zip, path, part.contentType);
+    }
+    if (part.rels && part.rels.length > 0) {
+      writeRelationships(
+        zip,
+        path,
+        part.rels.map(rel => {
+          if (rel.external) return rel;
+          const target = renamed.get(resolveTarget(part.path, rel.target));
+          return target ? { ...rel, target: relativeTarget(path, target) } : rel;
+        })
+      );
+    }
+  }
+
+  return renamed.get(parts[0].path)!;
+}